@@ -0,0 +1,149 @@
+import { aql } from 'arangojs';
+import { BenchmarkConfig, time } from './async-bench.ts';
+import { CliOptions, UsageError } from './cli.ts';
+import { runComparisons } from './compare-runner.ts';
+import { DATASET_PROFILES, DatasetProfile, getDatasetLink } from './datasets.ts';
+import { getSuiteName, getSuiteOptions, Harness, settle } from './harness.ts';
+import { createAnalyzerMatchQuery } from './query-workloads.ts';
+import { writeCsvFile } from './result-export.ts';
+import { AnalyzerComparison } from './view-config.ts';
+import { captureViewTelemetry } from './view-telemetry.ts';
+
+interface AnalyzerIndexingResult {
+    readonly analyzer: string;
+    readonly indexingTime: number;
+    readonly indexingThroughput: number;
+    readonly indexSize: number | undefined;
+    readonly numSegments: number | undefined;
+}
+
+/**
+ * Checks that the documents of the dataset have the compared field. Otherwise, the views would
+ * index nothing and every query would fail.
+ *
+ * @throws UsageError if the field is not part of the dataset
+ */
+export function checkAnalyzerComparisonField(
+    { field }: AnalyzerComparison,
+    dataset: DatasetProfile,
+) {
+    if (hasField(dataset, field)) {
+        return;
+    }
+    const datasets = DATASET_PROFILES.filter((profile) => hasField(profile, field));
+    if (!datasets.length) {
+        throw new UsageError(`analyzerComparison.field "${field}" is not a field of any dataset`);
+    }
+    const names = datasets.map((profile) => profile.name).join(' or ');
+    throw new UsageError(
+        `analyzerComparison.field "${field}" requires --dataset ${names}, got "${dataset.name}"`,
+    );
+}
+
+/**
+ * Returns true if the link of the dataset indexes the field (or the object it is nested in)
+ */
+function hasField(dataset: DatasetProfile, field: string) {
+    const [attribute] = field.split('.');
+    return attribute in getDatasetLink(dataset).fields!;
+}
+
+/**
+ * The view that indexes the compared field with the given analyzer
+ */
+export function getAnalyzerView({ database, collection }: Harness, analyzer: string) {
+    return database.view(`${collection.name}_analyzer_view_${analyzer}`);
+}
+
+/**
+ * Indexes the configured field with each analyzer in a separate view, then compares indexing
+ * time, index size and query latency
+ *
+ * The views are dropped afterwards so they don't slow down the churn and other benchmarks.
+ */
+export async function compareAnalyzers(
+    harness: Harness,
+    { field, analyzers }: AnalyzerComparison,
+    cliOptions: CliOptions,
+) {
+    const { database, collection, matrix, random } = harness;
+    const { duration, concurrency, measurement, resultsDirectory } = cliOptions;
+    const suiteName = `analyzers-${field}`;
+    const analyzerViews = analyzers.map((analyzer) => getAnalyzerView(harness, analyzer));
+    try {
+        const rows: AnalyzerIndexingResult[] = [];
+        for (const [i, analyzer] of analyzers.entries()) {
+            const view = analyzerViews[i];
+            if (await view.exists()) {
+                await view.drop();
+            }
+            console.log(`Indexing ${field} with analyzer ${analyzer}...`);
+            // creating the link indexes the existing documents, the query waits for the commit
+            const startTime = time();
+            await view.create({
+                ...matrix.defaults,
+                type: 'arangosearch',
+                links: {
+                    [collection.name]: { fields: { [field]: { analyzers: [analyzer] } } },
+                },
+            });
+            await database.query(aql`
+                FOR doc IN ${view} OPTIONS { waitForSync: true } LIMIT 1 RETURN 1
+            `);
+            const indexingTime = time() - startTime;
+            // settle so the index size is not distorted by pending consolidations
+            await settle(harness, [{ view }], cliOptions);
+            const [snapshot] = await captureViewTelemetry(database, collection, [view.name]);
+            const row: AnalyzerIndexingResult = {
+                analyzer,
+                indexingTime,
+                indexingThroughput: snapshot.collectionCount / indexingTime,
+                indexSize: snapshot.indexSize,
+                numSegments: snapshot.numSegments,
+            };
+            console.log(
+                `  ${indexingTime.toFixed(1)}s (${Math.round(row.indexingThroughput)} docs/s), ` +
+                    `index size ${row.indexSize ?? '?'} bytes`,
+            );
+            rows.push(row);
+        }
+        const path = await writeCsvFile(`${suiteName}-indexing`, rows, resultsDirectory);
+        console.log(`Indexing results written to ${path}`);
+        console.log('');
+
+        const configs: BenchmarkConfig[] = analyzers.map((analyzer, i) => {
+            const view = analyzerViews[i];
+            const fn = createAnalyzerMatchQuery(field, analyzer);
+            return {
+                name: `${field} analyzed with ${analyzer}`,
+                fn: () =>
+                    fn({
+                        database,
+                        collection,
+                        view,
+                        parallelism: 1,
+                        random: random.queries,
+                        measurement,
+                    }),
+                captureSnapshot: async () => ({
+                    ...rows[i],
+                    ...(await captureViewTelemetry(database, collection, [view.name]))[0],
+                }),
+                maxTime: duration,
+                initialCount: 10,
+                concurrency,
+            };
+        });
+        return await runComparisons(configs, {
+            name: getSuiteName(suiteName, measurement),
+            parameters: { measurement },
+            ...getSuiteOptions(harness, cliOptions),
+        });
+    } finally {
+        for (const view of analyzerViews) {
+            if (await view.exists()) {
+                await view.drop();
+            }
+        }
+    }
+}
@@ -1,7 +1,10 @@
 import { benchmark, BenchmarkFactories, time } from './async-bench.js';
 import chalk from 'chalk';
+import { benchmarkResultToRecord, ResultRecord, writeResultFile } from './result-export.js';
+import { formatDistribution, formatHistogram, formatThroughput } from './format.js';
 
 const SHOW_CYCLE_INFO = false;
+const SHOW_HISTOGRAM = false;
 
 function formatTimings({
     meanTime,
@@ -24,8 +27,25 @@ interface BenchmarkSuiteResult {
     hasErrors: boolean;
 }
 
-export async function runBenchmarks(factories: BenchmarkFactories): Promise<BenchmarkSuiteResult> {
+export interface BenchmarkSuiteOptions {
+    /**
+     * The name of the suite, used in the name of the result files
+     */
+    readonly name?: string;
+
+    /**
+     * The directory to write the result files to
+     */
+    readonly resultsDirectory?: string;
+}
+
+export async function runBenchmarks(
+    factories: BenchmarkFactories,
+    options: BenchmarkSuiteOptions = {},
+): Promise<BenchmarkSuiteResult> {
     const startTime = time();
+    const startDate = new Date();
+    const records: ResultRecord[] = [];
     console.log('');
     console.log('Running benchmark suite');
     let index = 1;
@@ -51,18 +71,38 @@ export async function runBenchmarks(factories: BenchmarkFactories): Promise<Benc
                 },
             });
             console.log(chalk.green(`  ${formatTimings(result)}`) + ` per iteration`);
+            console.log(`  ${formatDistribution(result)}`);
+            console.log(`  ${formatThroughput(result)}`);
+            if (SHOW_HISTOGRAM) {
+                for (const line of formatHistogram(result.histogram)) {
+                    console.log(chalk.grey(`    ${line}`));
+                }
+            }
             console.log(
                 `  ${formatElapsedTime(result)} for ${result.iterationCount} iterations in ${
                     result.cycles
                 } cycles`,
             );
+            records.push(benchmarkResultToRecord(config.name, result));
         } catch (err: any) {
             console.error(err.message, err.stack);
+            records.push({ name: config.name, error: err.message });
             erroredCount++;
         }
         index++;
     }
 
+    const resultFiles = await writeResultFile(
+        {
+            kind: 'benchmark',
+            name: options.name ?? 'benchmark',
+            startTime: startDate.toISOString(),
+            endTime: new Date().toISOString(),
+            results: records,
+        },
+        options.resultsDirectory,
+    );
+
     const elapsed = time() - startTime;
     const elapsedMinutes = Math.floor(elapsed / 60);
     const elapsedSeconds = Math.floor(elapsed % 60);
@@ -76,6 +116,7 @@ export async function runBenchmarks(factories: BenchmarkFactories): Promise<Benc
     if (erroredCount) {
         console.log(chalk.red(chalk.bold(`${erroredCount} benchmarks reported an error.`)));
     }
+    console.log(`Results written to ${resultFiles.join(', ')}`);
     console.log('');
     return {
         hasErrors: erroredCount > 0,
@@ -5,6 +5,7 @@ const DEFAULT_MAX_TIME = 30;
 const INITIAL_ITERATION_COUNT = 1;
 const TARGET_CYCLE_TIME = DEFAULT_MAX_TIME / 10;
 const INCLUDE_INITIAL_SETUP_IN_MAX_TIME = false; // makes million-docs-tests feasable
+const HISTOGRAM_BUCKET_COUNT = 10;
 
 export interface BenchmarkConfig {
     readonly name: string;
@@ -14,6 +15,23 @@ export interface BenchmarkConfig {
     readonly beforeAll?: () => Promise<any>;
     readonly maxTime?: number;
     readonly initialCount?: number;
+
+    /**
+     * The number of calls to fn that are kept in flight at the same time (default: 1)
+     */
+    readonly concurrency?: number;
+
+    /**
+     * Called after the last cycle. The returned value is stored in the result's snapshots, e.g. to
+     * record the state of the system under test at benchmark time.
+     */
+    readonly captureSnapshot?: () => Promise<unknown>;
+
+    /**
+     * Returns the current time in seconds, used for the deadline and the cycle times (default:
+     * time()). Tests pass a fake clock to make the iteration planning deterministic.
+     */
+    readonly clock?: () => number;
 }
 
 export type BenchmarkFactories = Array<() => BenchmarkConfig>;
@@ -22,9 +40,34 @@ export interface Timings {
     readonly sampleCount: number;
     readonly meanTime: number;
     readonly relativeMarginOfError: number;
+    readonly minTime: number;
+    readonly maxTime: number;
+    readonly medianTime: number;
+    readonly p90Time: number;
+    readonly p95Time: number;
+    readonly p99Time: number;
+    readonly standardDeviation: number;
+    readonly histogram: ReadonlyArray<HistogramBucket>;
 }
 
-interface BenchmarkState {
+export interface HistogramBucket {
+    /**
+     * The smallest time, in seconds, that falls into this bucket
+     */
+    readonly lowerBound: number;
+
+    /**
+     * The largest time, in seconds, that falls into this bucket (exclusive, except for the last one)
+     */
+    readonly upperBound: number;
+
+    /**
+     * The number of samples in this bucket
+     */
+    readonly count: number;
+}
+
+export interface BenchmarkState {
     readonly timings: Timings;
     readonly cycles: number;
     readonly iterationCount: number;
@@ -32,14 +75,61 @@ interface BenchmarkState {
     readonly elapsedNetTime: number;
     readonly elapsedTimeForInitialSetUp: number;
     readonly elapsedCycleGrossTime: number;
+    readonly elapsedIterationTime: number;
     readonly config: BenchmarkConfig;
 }
 
+interface CycleResult {
+    readonly times: ReadonlyArray<number>;
+
+    /**
+     * The time, in seconds, that counts as spent in iterations (as opposed to set-up time)
+     */
+    readonly netTime: number;
+
+    /**
+     * The wall-clock time, in seconds, spent on the iterations (excluding the before hook)
+     */
+    readonly iterationTime: number;
+
+    /**
+     * The number of iterations actually executed (can be lower than requested if the deadline was
+     * reached in concurrent mode)
+     */
+    readonly iterationCount: number;
+}
+
 interface BenchmarkAction {
     readonly shouldContinue: boolean;
     readonly nextIterationCount?: number;
 }
 
+/**
+ * Thrown by benchmark() if an iteration fails, to tell in which cycle and iteration it happened
+ */
+export class BenchmarkIterationError extends Error {
+    constructor(
+        public readonly benchmarkName: string,
+        /**
+         * The zero-based index of the cycle
+         */
+        public readonly cycle: number,
+        /**
+         * The zero-based index of the iteration within the cycle
+         */
+        public readonly iteration: number,
+        cause: unknown,
+    ) {
+        super(
+            `${benchmarkName} failed in iteration ${iteration + 1} of cycle ${cycle + 1}: ${
+                cause instanceof Error ? cause.message : cause
+            }`,
+            { cause },
+        );
+        this.name = 'BenchmarkIterationError';
+    }
+}
+
 export class BenchmarkCycleDetails {
     /**
      * The name of the benchmark
@@ -87,16 +177,17 @@ export class BenchmarkCycleDetails {
     }
 }
 
-export interface BenchmarkResultConfig {
+export interface BenchmarkResultConfig extends Omit<Timings, 'sampleCount'> {
     readonly cycles: number;
     readonly iterationCount: number;
-    readonly meanTime: number;
-    readonly relativeMarginOfError: number;
+    readonly iterationTime: number;
+    readonly concurrency: number;
 
     readonly elapsedTime: number;
     readonly setUpTime: number;
     readonly cycleDetails: ReadonlyArray<BenchmarkCycleDetails>;
     readonly samples: number[];
+    readonly snapshots: ReadonlyArray<unknown>;
 }
 
 export class BenchmarkResult {
@@ -120,6 +211,46 @@ export class BenchmarkResult {
      */
     public readonly relativeMarginOfError: number;
 
+    /**
+     * The fastest sample, in seconds
+     */
+    public readonly minTime: number;
+
+    /**
+     * The slowest sample, in seconds
+     */
+    public readonly maxTime: number;
+
+    /**
+     * The median of the samples, in seconds
+     */
+    public readonly medianTime: number;
+
+    /**
+     * The 90th percentile of the samples, in seconds
+     */
+    public readonly p90Time: number;
+
+    /**
+     * The 95th percentile of the samples, in seconds
+     */
+    public readonly p95Time: number;
+
+    /**
+     * The 99th percentile of the samples, in seconds
+     */
+    public readonly p99Time: number;
+
+    /**
+     * The standard deviation of the samples, in seconds
+     */
+    public readonly standardDeviation: number;
+
+    /**
+     * The distribution of the samples
+     */
+    public readonly histogram: ReadonlyArray<HistogramBucket>;
+
     /**
      * The total time, in seconds, the whole benchmark took
      */
@@ -135,20 +266,52 @@ export class BenchmarkResult {
      */
     public readonly iterationCount: number;
 
+    /**
+     * The wall-clock time, in seconds, spent executing iterations
+     */
+    public readonly iterationTime: number;
+
+    /**
+     * The number of iterations that were kept in flight at the same time
+     */
+    public readonly concurrency: number;
+
+    /**
+     * The number of iterations completed per second of iterationTime
+     */
+    public readonly throughput: number;
+
     /**
      * The raw array of cycle times
      */
     public readonly samples: number[];
 
+    /**
+     * The values returned by the config's captureSnapshot (one per benchmark run)
+     */
+    public readonly snapshots: ReadonlyArray<unknown>;
+
     constructor(config: BenchmarkResultConfig) {
         this.cycles = config.cycles;
         this.meanTime = config.meanTime;
         this.relativeMarginOfError = config.relativeMarginOfError;
+        this.minTime = config.minTime;
+        this.maxTime = config.maxTime;
+        this.medianTime = config.medianTime;
+        this.p90Time = config.p90Time;
+        this.p95Time = config.p95Time;
+        this.p99Time = config.p99Time;
+        this.standardDeviation = config.standardDeviation;
+        this.histogram = config.histogram;
         this.elapsedTime = config.elapsedTime;
         this.setUpTime = config.setUpTime;
         this.cycleDetails = config.cycleDetails;
         this.iterationCount = config.iterationCount;
+        this.iterationTime = config.iterationTime;
+        this.concurrency = config.concurrency;
+        this.throughput = config.iterationCount / config.iterationTime;
         this.samples = config.samples;
+        this.snapshots = config.snapshots;
     }
 
     toString() {
@@ -159,20 +322,22 @@ export class BenchmarkResult {
 
     static add(...results: BenchmarkResult[]) {
         const samples = results.reduce<number[]>((value, r) => [...value, ...r.samples], []);
-        const timings = getTimings(samples);
+        const { sampleCount, ...timings } = getTimings(samples);
 
         return new BenchmarkResult({
+            ...timings,
             cycles: results.reduce((value, r) => value + r.cycles, 0),
             cycleDetails: results.reduce<BenchmarkCycleDetails[]>(
                 (value, r) => [...value, ...r.cycleDetails],
                 [],
             ),
-            meanTime: timings.meanTime,
-            relativeMarginOfError: timings.relativeMarginOfError,
             elapsedTime: results.reduce((value, r) => value + r.elapsedTime, 0),
             setUpTime: results.reduce((value, r) => value + r.setUpTime, 0),
             iterationCount: results.reduce((value, r) => value + r.iterationCount, 0),
+            iterationTime: results.reduce((value, r) => value + r.iterationTime, 0),
+            concurrency: results.length ? results[0].concurrency : 1,
             samples,
+            snapshots: results.reduce<unknown[]>((value, r) => [...value, ...r.snapshots], []),
         });
     }
 }
@@ -184,134 +349,287 @@ export async function benchmark(
     config: BenchmarkConfig,
     callbacks?: BenchmarkExecutionCallbacks,
 ): Promise<BenchmarkResult> {
-    async function cycle(
-        count: number,
-    ): Promise<{ times: ReadonlyArray<number>; netTime: number }> {
+    const run = new BenchmarkRun(config, callbacks);
+    await run.start();
+    while (!run.isDone) {
+        await run.runCycle();
+    }
+    return run.finish();
+}
+
+/**
+ * A benchmark that is executed one cycle at a time, so the cycles of several benchmarks can be
+ * interleaved
+ *
+ * Only the time spent in the run's own steps counts towards its max time, so cycles of other runs
+ * in between don't shorten it.
+ */
+export class BenchmarkRun {
+    private readonly clock: () => number;
+    private readonly concurrency: number;
+    private readonly samples: number[] = [];
+    private readonly cycleDetails: BenchmarkCycleDetails[] = [];
+    private state: BenchmarkState;
+    private nextCount: number;
+
+    constructor(
+        public readonly config: BenchmarkConfig,
+        private readonly callbacks?: BenchmarkExecutionCallbacks,
+    ) {
+        this.clock = config.clock ?? time;
+        this.concurrency = config.concurrency ?? 1;
+        this.state = {
+            elapsedTime: 0,
+            elapsedNetTime: 0,
+            elapsedTimeForInitialSetUp: 0,
+            cycles: 0,
+            iterationCount: 0,
+            elapsedCycleGrossTime: 0,
+            elapsedIterationTime: 0,
+            config,
+            timings: getTimings(this.samples),
+        };
+        this.nextCount = nextIterationCount(this.state);
+    }
+
+    /**
+     * The number of cycles executed so far
+     */
+    get cycles() {
+        return this.state.cycles;
+    }
+
+    /**
+     * True if the max time is used up or the timings are accurate enough
+     */
+    get isDone() {
+        return this.nextCount === 0;
+    }
+
+    /**
+     * Runs the beforeAll hook. Call this once before the first cycle.
+     */
+    async start() {
+        const startTime = this.clock();
+        if (this.config.beforeAll) {
+            await this.config.beforeAll();
+        }
+        const elapsedTimeForInitialSetUp = this.clock() - startTime;
+        this.state = {
+            ...this.state,
+            elapsedTime: this.state.elapsedTime + elapsedTimeForInitialSetUp,
+            elapsedTimeForInitialSetUp,
+        };
+    }
+
+    async runCycle() {
+        const { config, concurrency, clock } = this;
+        const iterationCount = this.nextCount;
+        if (!iterationCount) {
+            return;
+        }
+
+        // Preparation
+        const stepStartTime = clock();
+        const deadline = stepStartTime + this.getRemainingTime();
+        const cycleFn = config.isSync
+            ? this.cycleSync
+            : concurrency > 1
+            ? this.cycleConcurrent
+            : iterationCount > 10000
+            ? this.cycle
+            : this.cycleDetailed;
+
+        // Run cycle
+        let cycleStartTime = clock();
+        const {
+            netTime,
+            times: cycleTimes,
+            iterationTime,
+            iterationCount: executedIterationCount,
+        } = await cycleFn.call(this, iterationCount, deadline);
+        const cycleGrossTime = clock() - cycleStartTime;
+
+        // Calculate next state
+        this.samples.push(...cycleTimes);
+        const state = this.state;
+        this.state = {
+            timings: getTimings(this.samples),
+            config: state.config,
+            cycles: state.cycles + 1,
+            iterationCount: state.iterationCount + executedIterationCount,
+            elapsedTime: state.elapsedTime + (clock() - stepStartTime),
+            elapsedNetTime: state.elapsedNetTime + netTime,
+            elapsedCycleGrossTime: state.elapsedCycleGrossTime + cycleGrossTime,
+            elapsedIterationTime: state.elapsedIterationTime + iterationTime,
+            elapsedTimeForInitialSetUp: state.elapsedTimeForInitialSetUp,
+        };
+
+        // Report status
+        this.cycleDetails.push(
+            new BenchmarkCycleDetails({
+                name: config.name,
+                index: this.state.cycles - 1,
+                elapsedTime: this.state.elapsedTime,
+                setUpTime: this.state.elapsedTime - this.state.elapsedNetTime,
+                iterationCount: executedIterationCount,
+                timingsSoFar: this.state.timings,
+            }),
+        );
+
+        if (this.callbacks && this.callbacks.onCycleDone) {
+            this.callbacks.onCycleDone(this.cycleDetails[this.cycleDetails.length - 1]);
+        }
+        this.nextCount = nextIterationCount(this.state);
+    }
+
+    /**
+     * Captures the snapshot and returns the result of all cycles so far
+     */
+    async finish(): Promise<BenchmarkResult> {
+        // not included in the elapsed time
+        const snapshots = this.config.captureSnapshot ? [await this.config.captureSnapshot()] : [];
+
+        const { sampleCount, ...timings } = this.state.timings;
+        return new BenchmarkResult({
+            ...timings,
+            cycles: this.cycleDetails.length,
+            iterationCount: this.state.iterationCount,
+            iterationTime: this.state.elapsedIterationTime,
+            concurrency: this.concurrency,
+            elapsedTime: this.state.elapsedTime,
+            setUpTime: this.state.elapsedTime - this.state.elapsedNetTime,
+            cycleDetails: this.cycleDetails,
+            samples: this.samples,
+            snapshots,
+        });
+    }
+
+    private getRemainingTime() {
+        return (
+            (this.config.maxTime || DEFAULT_MAX_TIME) -
+            this.state.elapsedTime +
+            (INCLUDE_INITIAL_SETUP_IN_MAX_TIME ? 0 : this.state.elapsedTimeForInitialSetUp)
+        );
+    }
+
+    private async cycle(count: number): Promise<CycleResult> {
+        const { config, clock } = this;
         if (config.before) {
             await config.before({ count });
         }
 
+        const iterationStartTime = clock();
         let netTime = 0;
         for (let i = 0; i < count; i++) {
-            netTime += await config.fn();
+            try {
+                netTime += await config.fn();
+            } catch (err) {
+                throw new BenchmarkIterationError(config.name, this.state.cycles, i, err);
+            }
         }
 
         return {
             times: [netTime / count],
             netTime,
+            iterationTime: clock() - iterationStartTime,
+            iterationCount: count,
         };
     }
 
-    async function cycleSync(
-        count: number,
-    ): Promise<{ times: ReadonlyArray<number>; netTime: number }> {
+    private async cycleSync(count: number): Promise<CycleResult> {
+        const { config, clock } = this;
         if (config.before) {
             await config.before({ count });
         }
 
+        const iterationStartTime = clock();
         let netTime = 0;
         for (let i = 0; i < count; i++) {
-            netTime += config.fn();
+            try {
+                netTime += config.fn();
+            } catch (err) {
+                throw new BenchmarkIterationError(config.name, this.state.cycles, i, err);
+            }
         }
 
         return {
             times: [netTime / count],
             netTime,
+            iterationTime: clock() - iterationStartTime,
+            iterationCount: count,
         };
     }
 
-    async function cycleDetailed(
-        count: number,
-    ): Promise<{ times: ReadonlyArray<number>; netTime: number }> {
+    private async cycleDetailed(count: number): Promise<CycleResult> {
+        const { config, clock } = this;
         if (config.before) {
             await config.before({ count });
         }
+        const iterationStartTime = clock();
         const times = Array(count);
         for (let i = 0; i < count; i++) {
-            const duration = await config.fn();
-            times[i] = duration;
+            try {
+                times[i] = await config.fn();
+            } catch (err) {
+                throw new BenchmarkIterationError(config.name, this.state.cycles, i, err);
+            }
         }
 
         return {
             times,
             netTime: getSum(times),
+            iterationTime: clock() - iterationStartTime,
+            iterationCount: count,
         };
     }
 
-    const startTime = time();
-    if (config.beforeAll) {
-        await config.beforeAll();
-    }
-    const elapsedTimeForInitialSetUp = time() - startTime;
-
-    const samples: number[] = [];
-    const cycleDetails: BenchmarkCycleDetails[] = [];
-    let state: BenchmarkState = {
-        elapsedTime: 0,
-        elapsedNetTime: 0,
-        elapsedTimeForInitialSetUp,
-        cycles: 0,
-        iterationCount: 0,
-        elapsedCycleGrossTime: 0,
-        config: config,
-        timings: getTimings(samples),
-    };
-
-    while (true) {
-        // Preparation
-        const iterationCount = nextIterationCount(state);
-        const cycleFn = config.isSync ? cycleSync : iterationCount > 10000 ? cycle : cycleDetailed;
-        if (!iterationCount) {
-            break;
+    private async cycleConcurrent(count: number, deadline: number): Promise<CycleResult> {
+        const { config, clock, state } = this;
+        if (config.before) {
+            await config.before({ count });
         }
+        const iterationStartTime = clock();
+        const times: number[] = [];
+        let started = 0;
+        let error: BenchmarkIterationError | undefined;
+        async function worker() {
+            // all workers share the deadline so the cycle does not overshoot the max time
+            while (!error && started < count && (started === 0 || clock() < deadline)) {
+                const iteration = started++;
+                try {
+                    times.push(await config.fn());
+                } catch (err) {
+                    // let the other workers finish their current iteration, but don't start more
+                    error ??= new BenchmarkIterationError(
+                        config.name,
+                        state.cycles,
+                        iteration,
+                        err,
+                    );
+                }
+            }
+        }
+        await Promise.all(Array.from({ length: Math.min(this.concurrency, count) }, worker));
+        if (error) {
+            throw error;
+        }
+        const iterationTime = clock() - iterationStartTime;
 
-        // Run cycle
-        let cycleStartTime = time();
-        const { netTime, times: cycleTimes } = await cycleFn(iterationCount);
-        const cycleGrossTime = time() - cycleStartTime;
-
-        // Calculate next state
-        samples.push(...cycleTimes);
-        state = {
-            timings: getTimings(samples),
-            config: state.config,
-            cycles: state.cycles + 1,
-            iterationCount: state.iterationCount + iterationCount,
-            elapsedTime: time() - startTime,
-            elapsedNetTime: state.elapsedNetTime + netTime,
-            elapsedCycleGrossTime: state.elapsedCycleGrossTime + cycleGrossTime,
-            elapsedTimeForInitialSetUp: state.elapsedTimeForInitialSetUp,
+        return {
+            times,
+            // the individual durations overlap, so only the wall-clock time is meaningful here
+            netTime: iterationTime,
+            iterationTime,
+            iterationCount: times.length,
         };
-
-        // Report status
-        cycleDetails.push(
-            new BenchmarkCycleDetails({
-                name: config.name,
-                index: state.cycles - 1,
-                elapsedTime: state.elapsedTime,
-                setUpTime: state.elapsedTime - state.elapsedNetTime,
-                iterationCount,
-                timingsSoFar: state.timings,
-            }),
-        );
-
-        if (callbacks && callbacks.onCycleDone) {
-            callbacks.onCycleDone(cycleDetails[cycleDetails.length - 1]);
-        }
     }
-    return new BenchmarkResult({
-        meanTime: state.timings.meanTime,
-        relativeMarginOfError: state.timings.relativeMarginOfError,
-        cycles: cycleDetails.length,
-        iterationCount: state.iterationCount,
-        elapsedTime: state.elapsedTime,
-        setUpTime: state.elapsedTime - state.elapsedNetTime,
-        cycleDetails,
-        samples,
-    });
 }
 
-function nextIterationCount(state: BenchmarkState): number {
+/**
+ * Decides how many iterations to run in the next cycle, or 0 to stop
+ */
+export function nextIterationCount(state: BenchmarkState): number {
     const maxTime = state.config.maxTime || DEFAULT_MAX_TIME;
     let remainingTime = maxTime - state.elapsedTime;
     if (!INCLUDE_INITIAL_SETUP_IN_MAX_TIME) {
@@ -416,7 +734,7 @@ function getStddev(arr: ReadonlyArray<number>) {
     return Math.sqrt(arr.map((x) => Math.pow(x - mean, 2)).reduce((a, b) => a + b) / n);
 }
 
-function getTimings(samples: ReadonlyArray<number>): Timings {
+export function getTimings(samples: ReadonlyArray<number>): Timings {
     const mean = getMean(samples);
     // Compute the sample standard deviation (estimate of the population standard deviation).
     const sd = getStddev(samples);
@@ -431,9 +749,75 @@ function getTimings(samples: ReadonlyArray<number>): Timings {
     // Compute the relative margin of error.
     const rme = moe / mean || Infinity;
 
+    const sorted = [...samples].sort((a, b) => a - b);
+
     return {
         relativeMarginOfError: rme,
         meanTime: mean,
         sampleCount: samples.length,
+        minTime: sorted.length ? sorted[0] : NaN,
+        maxTime: sorted.length ? sorted[sorted.length - 1] : NaN,
+        medianTime: getPercentile(sorted, 0.5),
+        p90Time: getPercentile(sorted, 0.9),
+        p95Time: getPercentile(sorted, 0.95),
+        p99Time: getPercentile(sorted, 0.99),
+        standardDeviation: sd,
+        histogram: getHistogram(sorted),
     };
 }
+
+/**
+ * Gets the value below which the given fraction of samples fall, interpolating between the two
+ * closest ranks
+ *
+ * @param sorted the samples, sorted in ascending order
+ */
+export function getPercentile(sorted: ArrayLike<number>, fraction: number) {
+    if (!sorted.length) {
+        return NaN;
+    }
+    const rank = fraction * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Distributes the samples into buckets between the min and the max
+ *
+ * The bucket bounds are spaced logarithmically if possible because latencies usually have a long
+ * tail, and linear buckets would put almost all samples into the first one.
+ *
+ * @param sorted the samples, sorted in ascending order
+ */
+function getHistogram(sorted: ReadonlyArray<number>): HistogramBucket[] {
+    if (!sorted.length) {
+        return [];
+    }
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    if (min === max) {
+        return [{ lowerBound: min, upperBound: max, count: sorted.length }];
+    }
+    const isLogarithmic = min > 0;
+    const bounds = Array.from({ length: HISTOGRAM_BUCKET_COUNT + 1 }, (_, i) => {
+        const fraction = i / HISTOGRAM_BUCKET_COUNT;
+        return isLogarithmic ? min * Math.pow(max / min, fraction) : min + (max - min) * fraction;
+    });
+    // avoid rounding errors
+    bounds[bounds.length - 1] = max;
+
+    const buckets = bounds.slice(0, -1).map((lowerBound, i) => ({
+        lowerBound,
+        upperBound: bounds[i + 1],
+        count: 0,
+    }));
+    let bucketIndex = 0;
+    for (const sample of sorted) {
+        while (bucketIndex < buckets.length - 1 && sample >= buckets[bucketIndex].upperBound) {
+            bucketIndex++;
+        }
+        buckets[bucketIndex].count++;
+    }
+    return buckets;
+}
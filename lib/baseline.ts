@@ -0,0 +1,65 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ComparisonBaseline, ComparisonBenchmarkResult } from './compare.ts';
+import { toFileName } from './result-export.ts';
+
+export const DEFAULT_BASELINES_DIRECTORY = 'baselines';
+
+interface BaselineFile extends ComparisonBaseline {
+    readonly suite: string;
+    readonly createdAt: string;
+}
+
+/**
+ * Stores the samples of a comparison so later runs can be compared against them
+ *
+ * A baseline consists of one file per suite, so one baseline name can cover multiple suites.
+ *
+ * @returns the path of the written file
+ */
+export async function saveBaseline(
+    name: string,
+    suite: string,
+    result: ComparisonBenchmarkResult,
+    directory = DEFAULT_BASELINES_DIRECTORY,
+): Promise<string> {
+    const file: BaselineFile = {
+        name,
+        suite,
+        createdAt: new Date().toISOString(),
+        candidates: result.candidates.map((candidate) => ({
+            name: candidate.config.name,
+            meanTime: candidate.benchmark.meanTime,
+            relativeMarginOfError: candidate.benchmark.relativeMarginOfError,
+            samples: candidate.benchmark.samples,
+        })),
+    };
+    const path = getBaselinePath(name, suite, directory);
+    await mkdir(join(directory, toFileName(name)), { recursive: true });
+    await writeFile(path, JSON.stringify(file, undefined, 2) + '\n');
+    return path;
+}
+
+/**
+ * Reads a baseline stored by saveBaseline()
+ *
+ * Throws if there is no baseline for this suite.
+ */
+export async function loadBaseline(
+    name: string,
+    suite: string,
+    directory = DEFAULT_BASELINES_DIRECTORY,
+): Promise<ComparisonBaseline> {
+    const path = getBaselinePath(name, suite, directory);
+    let file: BaselineFile;
+    try {
+        file = JSON.parse(await readFile(path, 'utf-8'));
+    } catch (err: any) {
+        throw new Error(`Failed to read baseline "${name}" for ${suite} (${path}): ${err.message}`);
+    }
+    return { name: file.name, candidates: file.candidates };
+}
+
+function getBaselinePath(name: string, suite: string, directory: string) {
+    return join(directory, toFileName(name), toFileName(suite) + '.json');
+}
@@ -0,0 +1,192 @@
+import { setTimeout } from 'node:timers/promises';
+import { Random } from './random.ts';
+
+export const CHURN_DISTRIBUTIONS = ['log-uniform', 'uniform', 'bursty'] as const;
+
+export type ChurnDistribution = (typeof CHURN_DISTRIBUTIONS)[number];
+
+const MAX_STEP_SIZE = 100;
+const BURST_PROBABILITY = 0.05;
+const MAX_BURST_SIZE = 1000;
+
+/**
+ * The fraction of the deviation from the target size that is corrected in one step
+ */
+const TARGET_SIZE_CORRECTION_FACTOR = 0.1;
+
+/**
+ * The operations the churn performs on the collection
+ */
+export interface ChurnStore {
+    /**
+     * Inserts count new documents and returns how many were actually inserted
+     */
+    insert(count: number): Promise<number>;
+
+    /**
+     * Removes up to count documents and returns how many were actually removed
+     */
+    remove(count: number): Promise<number>;
+
+    /**
+     * Gets the current number of documents
+     */
+    count(): Promise<number>;
+}
+
+export interface ChurnWorkload {
+    /**
+     * How the number of documents per insert and remove is distributed
+     *
+     * log-uniform: between 1 and 100, with small numbers being as likely as large orders of
+     * magnitude; uniform: between 1 and 100; bursty: mostly 1 to 10, occasionally up to 1000
+     */
+    readonly distribution: ChurnDistribution;
+
+    /**
+     * The number of documents inserted per removed document, on average
+     */
+    readonly insertRatio: number;
+
+    /**
+     * If set, inserts and removals are adjusted so that the document count approaches this size
+     */
+    readonly targetSize?: number;
+}
+
+export interface ChurnOptions extends ChurnWorkload {
+    /**
+     * Drives all random choices
+     */
+    readonly random: Random;
+
+    /**
+     * Stop after this many seconds (unbounded if not set)
+     */
+    readonly duration?: number;
+
+    /**
+     * Stop after this many insert / remove steps (unbounded if not set)
+     */
+    readonly operations?: number;
+
+    /**
+     * The number of insert / remove steps per second. Waits a random time between steps if not
+     * set.
+     */
+    readonly rate?: number;
+
+    /**
+     * Stops the churn when aborted
+     */
+    readonly signal?: AbortSignal;
+
+    /**
+     * Only log a summary instead of every step
+     */
+    readonly quiet?: boolean;
+}
+
+export interface ChurnStep {
+    readonly inserts: number;
+    readonly removals: number;
+}
+
+export interface ChurnStats {
+    readonly steps: number;
+    readonly totalInserts: number;
+    readonly totalRemovals: number;
+    readonly documentCount: number;
+}
+
+export const DEFAULT_CHURN_WORKLOAD: ChurnWorkload = {
+    distribution: 'log-uniform',
+    insertRatio: 1,
+};
+
+/**
+ * Decides how many documents to insert and remove in the next step
+ */
+export function planChurnStep(
+    random: Random,
+    { distribution, insertRatio, targetSize }: ChurnWorkload,
+    documentCount: number,
+): ChurnStep {
+    let inserts = Math.round(getStepSize(random, distribution) * insertRatio);
+    let removals = getStepSize(random, distribution);
+    if (targetSize !== undefined) {
+        const excess = documentCount + inserts - removals - targetSize;
+        const correction = Math.round(
+            Math.max(
+                -MAX_BURST_SIZE,
+                Math.min(MAX_BURST_SIZE, excess * TARGET_SIZE_CORRECTION_FACTOR),
+            ),
+        );
+        if (correction > 0) {
+            removals += correction;
+        } else {
+            inserts -= correction;
+        }
+    }
+    return { inserts, removals };
+}
+
+function getStepSize(random: Random, distribution: ChurnDistribution) {
+    switch (distribution) {
+        case 'log-uniform':
+            return Math.round(10 ** (random.next() * Math.log10(MAX_STEP_SIZE)));
+        case 'uniform':
+            return random.integer(1, MAX_STEP_SIZE);
+        case 'bursty':
+            if (random.next() < BURST_PROBABILITY) {
+                return random.integer(MAX_STEP_SIZE, MAX_BURST_SIZE);
+            }
+            return random.integer(1, 10);
+    }
+}
+
+/**
+ * Inserts and removes documents until the duration or operation budget is exhausted or the signal
+ * is aborted
+ */
+export async function runChurn(store: ChurnStore, options: ChurnOptions): Promise<ChurnStats> {
+    const { duration, operations = Infinity, rate, signal, quiet, random } = options;
+    const endTime = duration === undefined ? Infinity : Date.now() + duration * 1000;
+    let documentCount = await store.count();
+    let totalInserts = 0;
+    let totalRemovals = 0;
+    let step = 0;
+    while (step < operations && Date.now() < endTime && !signal?.aborted) {
+        const stepStartTime = Date.now();
+        const plan = planChurnStep(random, options, documentCount);
+        const inserts = await store.insert(plan.inserts);
+        const removals = await store.remove(plan.removals);
+        step++;
+        totalInserts += inserts;
+        totalRemovals += removals;
+        documentCount += inserts - removals;
+        const delay = rate
+            ? Math.max(0, Math.round(1000 / rate - (Date.now() - stepStartTime)))
+            : Math.round(10 ** (random.next() * 4));
+        if (!quiet) {
+            const insertsText = String(inserts).padStart(4);
+            const removalsText = String(removals).padStart(4);
+            console.log(
+                `Inserted ${insertsText} documents, removed ${removalsText} docs, ${documentCount} docs now ` +
+                    `(${totalInserts} inserts in total, ${totalRemovals} removals in total), waiting ${delay} ms`,
+            );
+        }
+        try {
+            await setTimeout(delay, undefined, { signal });
+        } catch (err) {
+            if (signal?.aborted) {
+                break;
+            }
+            throw err;
+        }
+    }
+    console.log(
+        `Churn done after ${step} steps: ${totalInserts} inserts in total, ${totalRemovals} removals in total, ${documentCount} docs now`,
+    );
+    return { steps: step, totalInserts, totalRemovals, documentCount };
+}
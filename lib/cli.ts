@@ -0,0 +1,557 @@
+import { parseArgs } from 'node:util';
+import { DEFAULT_RESULTS_DIRECTORY } from './result-export.js';
+import { DEFAULT_VIEW_CONFIG_PATH } from './view-config.js';
+import { CHURN_DISTRIBUTIONS, ChurnDistribution, DEFAULT_CHURN_WORKLOAD } from './churn.js';
+import { DATASET_PROFILES, DEFAULT_DATASET_PROFILE } from './datasets.js';
+import {
+    DEFAULT_ROUNDS,
+    DEFAULT_SCHEDULING_MODE,
+    SCHEDULING_MODES,
+    SchedulingMode,
+} from './compare.js';
+import {
+    DEFAULT_MEASUREMENT_MODE,
+    getQueryWorkload,
+    isWorkloadAvailable,
+    MEASUREMENT_MODES,
+    MeasurementMode,
+    QUERY_WORKLOADS,
+} from './query-workloads.js';
+
+const DEFAULT_DOCUMENT_COUNT = 10_000_000;
+const DEFAULT_BATCH_SIZE = 1000;
+const DEFAULT_BENCHMARK_TIME = 3;
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_WINDOW_SIZE = 10;
+const DEFAULT_TELEMETRY_INTERVAL = 5;
+const DEFAULT_SETTLE_TIMEOUT = 300;
+const DEFAULT_CHECKPOINTS = [100_000, 1_000_000, 10_000_000];
+const DEFAULT_SAMPLE_SIZE = 100;
+
+export const COMMANDS = [
+    'setup',
+    'reinit',
+    'churn',
+    'bench',
+    'analyzers',
+    'writes',
+    'sweep',
+    'verify',
+    'all',
+] as const;
+
+export type CommandName = (typeof COMMANDS)[number];
+
+export interface CliOptions {
+    readonly command: CommandName;
+
+    /**
+     * The names of the query workloads to benchmark (for "bench", "sweep" and "all")
+     */
+    readonly benchmarks: ReadonlyArray<string>;
+
+    /**
+     * The number of documents to insert on setup / reinit
+     */
+    readonly documentCount: number;
+
+    /**
+     * The number of documents to insert per query on setup / reinit, and the number of documents
+     * per write in the writes benchmark
+     */
+    readonly batchSize: number;
+
+    /**
+     * For sweep: the collection sizes to benchmark at, in ascending order
+     */
+    readonly checkpoints: ReadonlyArray<number>;
+
+    /**
+     * For verify: the number of present and the number of absent documents looked up in the views
+     */
+    readonly sampleSize: number;
+
+    /**
+     * For verify: if true, the absent documents are sampled from the collection and removed for the
+     * check instead of being generated
+     */
+    readonly removeSamples: boolean;
+
+    /**
+     * The name of the dataset profile that determines the document shape and the view links
+     */
+    readonly dataset: string;
+
+    /**
+     * For churn: the number of seconds to run (unbounded if not set)
+     * For benchmarks: the maximum number of seconds per candidate and comparison round
+     */
+    readonly duration: number | undefined;
+
+    /**
+     * The number of queries that are kept in flight at the same time in benchmarks
+     */
+    readonly concurrency: number;
+
+    /**
+     * What the measured duration of a benchmark query includes
+     */
+    readonly measurement: MeasurementMode;
+
+    /**
+     * If true, the benchmark queries are profiled with the statistics of each execution node, and
+     * the mean profile of each candidate is reported
+     */
+    readonly profile: boolean;
+
+    /**
+     * The number of churn steps (insert + remove) per second. For benchmarks, churn runs in the
+     * background if this is set.
+     */
+    readonly churnRate: number | undefined;
+
+    /**
+     * For churn: the number of insert / remove steps after which to stop (unbounded if not set)
+     */
+    readonly operations: number | undefined;
+
+    /**
+     * How the number of documents per churn step is distributed
+     */
+    readonly churnDistribution: ChurnDistribution;
+
+    /**
+     * The number of comparison rounds whose samples are combined
+     */
+    readonly rounds: number;
+
+    /**
+     * The number of comparison rounds before those whose samples are discarded
+     */
+    readonly warmUpRounds: number;
+
+    /**
+     * How the cycles of the benchmark candidates are ordered within a round
+     */
+    readonly scheduling: SchedulingMode;
+
+    /**
+     * The number of times a failed benchmark run of a candidate is retried on network errors or
+     * when the server is temporarily unavailable
+     */
+    readonly retries: number;
+
+    /**
+     * The number of documents inserted per removed document during churn, on average
+     */
+    readonly insertRatio: number;
+
+    /**
+     * If set, churn keeps the number of documents close to this size
+     */
+    readonly targetSize: number | undefined;
+
+    /**
+     * The seed for all random choices (a random seed is used if not set)
+     */
+    readonly seed: number | undefined;
+
+    /**
+     * The size, in seconds, of the time windows latency is reported for while churning
+     */
+    readonly windowSize: number;
+
+    /**
+     * The time, in seconds, between two captures of the view telemetry
+     */
+    readonly telemetryInterval: number;
+
+    /**
+     * If true, benchmarks start without waiting for the views to catch up with the collection
+     */
+    readonly skipSettle: boolean;
+
+    /**
+     * The maximum time, in seconds, to wait for the views to settle
+     */
+    readonly settleTimeout: number;
+
+    /**
+     * The path to the JSON file describing the view variants
+     */
+    readonly config: string;
+
+    /**
+     * The names of the view variants to benchmark (all variants if not set)
+     */
+    readonly views: ReadonlyArray<string> | undefined;
+
+    /**
+     * The directory benchmark result files are written to
+     */
+    readonly resultsDirectory: string;
+
+    /**
+     * The name of a baseline to compare the benchmark results with
+     */
+    readonly baseline: string | undefined;
+
+    /**
+     * If set, benchmark results are stored as a baseline of this name
+     */
+    readonly saveBaseline: string | undefined;
+}
+
+/**
+ * Thrown if the command line could not be parsed. The message is meant to be shown to the user
+ * together with the usage text.
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+export const USAGE = `Usage: npm start -- <command> [options]
+
+Commands:
+  setup               (Re-)create the collection and the views, then insert the initial documents
+  reinit              Truncate the collection and insert the initial documents again
+  churn               Continuously insert and remove documents (random delays unless --churn-rate)
+  bench <workload>    Compare the query performance of the views
+  analyzers           Index one field with each configured analyzer, compare indexing and queries
+  writes              Measure insert / update / remove times and how long until inserts are
+                      searchable in each view
+  sweep [workload...] Grow the collection through the checkpoints and run the workloads (default:
+                      all available for the dataset) at each size
+  verify              Check that the views contain exactly the documents of the collection
+  all                 setup, then run all workloads available for the dataset
+
+Workloads:
+${QUERY_WORKLOADS.map(
+    (w) =>
+        `  ${w.name.padEnd(20)}${w.description}` +
+        (w.datasets ? ` (dataset: ${w.datasets.join(', ')})` : ''),
+).join('\n')}
+
+Options:
+  --docs <n>          Number of initial documents (default: ${DEFAULT_DOCUMENT_COUNT})
+  --batch-size <n>    Number of documents per insert query on setup, and per write in the writes
+                      benchmark (default: ${DEFAULT_BATCH_SIZE})
+  --checkpoints <n,n,...>
+                      sweep: collection sizes to benchmark at (default: ${DEFAULT_CHECKPOINTS.join()})
+  --samples <n>       verify: number of present and of absent documents to look up
+                      (default: ${DEFAULT_SAMPLE_SIZE})
+  --remove-samples    verify: remove the absent documents from the collection for the check and
+                      insert them again afterwards (with new revisions). They are written to a file
+                      first so they can be restored if that fails.
+  --dataset <name>    Shape of the documents, one of ${DATASET_PROFILES.map((p) => p.name).join(
+      ', ',
+  )}
+                      (default: ${DEFAULT_DATASET_PROFILE}). Must match the dataset used on setup.
+  --duration <s>      churn: stop after this many seconds (default: run forever)
+                      bench: max. seconds per candidate and round (default: ${DEFAULT_BENCHMARK_TIME})
+  --concurrency <n>   Number of concurrent queries in benchmarks (default: ${DEFAULT_CONCURRENCY})
+  --measure <executing|server|round-trip|fetch-all>
+                      What the query latency includes: the executing phase on the server, the total
+                      server time, the client round-trip until the first batch or until all batches
+                      are fetched (default: ${DEFAULT_MEASUREMENT_MODE})
+  --profile           Report the mean query profile of each candidate, including the statistics
+                      of each execution node. Adds the profiling overhead to the latencies.
+  --rounds <n>        Comparison rounds per benchmark whose samples are combined
+                      (default: ${DEFAULT_ROUNDS})
+  --warm-up-rounds <n>
+                      Comparison rounds before those whose samples are discarded (default: 0)
+  --schedule <sequential|round-robin|random>
+                      Order of the candidates' cycles within a round: one candidate after another,
+                      taking turns, or in random order (default: ${DEFAULT_SCHEDULING_MODE})
+  --retries <n>       Retry a failed benchmark candidate up to n times if the error looks transient
+                      (network error, server unavailable; default: 0)
+  --churn-rate <n>    churn: steps (insert + remove) per second
+                      bench: run churn with this rate in the background, report latency per window
+  --operations <n>    churn: stop after this many steps (default: no limit)
+  --churn-distribution <log-uniform|uniform|bursty>
+                      Distribution of documents per churn step (default: ${
+                          DEFAULT_CHURN_WORKLOAD.distribution
+                      })
+  --insert-ratio <r>  Documents inserted per removed document during churn (default: ${
+      DEFAULT_CHURN_WORKLOAD.insertRatio
+  })
+  --target-size <n>   Adjust churn so the collection approaches this number of documents
+  --seed <n>          Seed for all random choices, to replay a run exactly (default: random)
+  --window <s>        Time window size for latency while churning (default: ${DEFAULT_WINDOW_SIZE})
+  --telemetry-interval <s>
+                      Seconds between view telemetry samples (default: ${DEFAULT_TELEMETRY_INTERVAL})
+  --settle-timeout <s>
+                      Max. seconds to wait for the views to catch up before benchmarks and after
+                      inserting / churning (default: ${DEFAULT_SETTLE_TIMEOUT})
+  --skip-settle       Don't wait for the views to catch up
+  --config <path>     View variant config file (default: ${DEFAULT_VIEW_CONFIG_PATH})
+  --view <name>       Only benchmark this view variant (can be repeated; default: all variants)
+  --results <dir>     Directory for the JSON / CSV result files (default: ${DEFAULT_RESULTS_DIRECTORY})
+  --baseline <name>   Compare benchmark results with this baseline, fail on regressions
+  --save-baseline <name>
+                      Store the benchmark results as a baseline of this name
+  --help              Show this help
+`;
+
+/**
+ * Parses the command line arguments (without the node executable and the script path)
+ *
+ * Returns undefined if the help text was requested.
+ */
+export function parseCommandLine(args: ReadonlyArray<string>): CliOptions | undefined {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: [...args],
+            allowPositionals: true,
+            options: {
+                docs: { type: 'string' },
+                'batch-size': { type: 'string' },
+                checkpoints: { type: 'string' },
+                samples: { type: 'string' },
+                'remove-samples': { type: 'boolean' },
+                dataset: { type: 'string' },
+                duration: { type: 'string' },
+                concurrency: { type: 'string' },
+                measure: { type: 'string' },
+                profile: { type: 'boolean' },
+                rounds: { type: 'string' },
+                'warm-up-rounds': { type: 'string' },
+                schedule: { type: 'string' },
+                retries: { type: 'string' },
+                'churn-rate': { type: 'string' },
+                operations: { type: 'string' },
+                'churn-distribution': { type: 'string' },
+                'insert-ratio': { type: 'string' },
+                'target-size': { type: 'string' },
+                seed: { type: 'string' },
+                window: { type: 'string' },
+                'telemetry-interval': { type: 'string' },
+                'settle-timeout': { type: 'string' },
+                'skip-settle': { type: 'boolean' },
+                config: { type: 'string' },
+                view: { type: 'string', multiple: true },
+                results: { type: 'string' },
+                baseline: { type: 'string' },
+                'save-baseline': { type: 'string' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (err: any) {
+        throw new UsageError(err.message);
+    }
+    const { values, positionals } = parsed;
+    if (values.help) {
+        return undefined;
+    }
+
+    const [command, ...commandArgs] = positionals;
+    if (!command) {
+        throw new UsageError('No command specified');
+    }
+    if (!isOneOf(COMMANDS, command)) {
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+
+    const dataset = parseDataset(values.dataset);
+    let benchmarks: ReadonlyArray<string> = [];
+    if (command === 'bench') {
+        const workloadNames = QUERY_WORKLOADS.map((w) => w.name);
+        if (commandArgs.length !== 1) {
+            throw new UsageError(
+                `Command "bench" expects exactly one of ${workloadNames.join(', ')}`,
+            );
+        }
+        benchmarks = [parseWorkload(commandArgs[0], dataset)];
+    } else if (command === 'sweep') {
+        benchmarks = commandArgs.length
+            ? commandArgs.map((name) => parseWorkload(name, dataset))
+            : getAvailableWorkloadNames(dataset);
+    } else if (command === 'writes' && values['churn-rate'] !== undefined) {
+        throw new UsageError('Command "writes" does not support --churn-rate');
+    } else if (commandArgs.length) {
+        throw new UsageError(`Unexpected argument "${commandArgs[0]}"`);
+    } else if (command === 'all') {
+        benchmarks = getAvailableWorkloadNames(dataset);
+    }
+
+    return {
+        command,
+        benchmarks,
+        documentCount: parsePositiveInteger('docs', values.docs) ?? DEFAULT_DOCUMENT_COUNT,
+        batchSize: parsePositiveInteger('batch-size', values['batch-size']) ?? DEFAULT_BATCH_SIZE,
+        checkpoints: parseCheckpoints(values.checkpoints) ?? DEFAULT_CHECKPOINTS,
+        sampleSize: parsePositiveInteger('samples', values.samples) ?? DEFAULT_SAMPLE_SIZE,
+        removeSamples: values['remove-samples'] ?? false,
+        dataset,
+        duration:
+            parsePositiveNumber('duration', values.duration) ??
+            (command === 'churn' ? undefined : DEFAULT_BENCHMARK_TIME),
+        concurrency: parsePositiveInteger('concurrency', values.concurrency) ?? DEFAULT_CONCURRENCY,
+        measurement: parseMeasurementMode(values.measure),
+        profile: values.profile ?? false,
+        rounds: parsePositiveInteger('rounds', values.rounds) ?? DEFAULT_ROUNDS,
+        warmUpRounds: parseNonNegativeInteger('warm-up-rounds', values['warm-up-rounds']) ?? 0,
+        scheduling: parseSchedulingMode(values.schedule),
+        retries: parseNonNegativeInteger('retries', values.retries) ?? 0,
+        churnRate: parsePositiveNumber('churn-rate', values['churn-rate']),
+        operations: parsePositiveInteger('operations', values.operations),
+        churnDistribution: parseChurnDistribution(values['churn-distribution']),
+        insertRatio:
+            parsePositiveNumber('insert-ratio', values['insert-ratio']) ??
+            DEFAULT_CHURN_WORKLOAD.insertRatio,
+        targetSize: parsePositiveInteger('target-size', values['target-size']),
+        seed: parseSeed(values.seed),
+        windowSize: parsePositiveNumber('window', values.window) ?? DEFAULT_WINDOW_SIZE,
+        telemetryInterval:
+            parsePositiveNumber('telemetry-interval', values['telemetry-interval']) ??
+            DEFAULT_TELEMETRY_INTERVAL,
+        skipSettle: values['skip-settle'] ?? false,
+        settleTimeout:
+            parsePositiveNumber('settle-timeout', values['settle-timeout']) ??
+            DEFAULT_SETTLE_TIMEOUT,
+        config: values.config ?? DEFAULT_VIEW_CONFIG_PATH,
+        views: values.view,
+        resultsDirectory: values.results ?? DEFAULT_RESULTS_DIRECTORY,
+        baseline: values.baseline,
+        saveBaseline: values['save-baseline'],
+    };
+}
+
+function parsePositiveNumber(name: string, value: string | undefined) {
+    if (value === undefined) {
+        return undefined;
+    }
+    const number = toNumber(value);
+    if (!isFinite(number) || number <= 0) {
+        throw new UsageError(`--${name} must be a positive number, got "${value}"`);
+    }
+    return number;
+}
+
+function parsePositiveInteger(name: string, value: string | undefined) {
+    const number = parsePositiveNumber(name, value);
+    if (number !== undefined && !Number.isInteger(number)) {
+        throw new UsageError(`--${name} must be an integer, got "${value}"`);
+    }
+    return number;
+}
+
+function parseNonNegativeInteger(name: string, value: string | undefined) {
+    if (value === undefined) {
+        return undefined;
+    }
+    const number = toNumber(value);
+    if (!Number.isInteger(number) || number < 0) {
+        throw new UsageError(`--${name} must be a non-negative integer, got "${value}"`);
+    }
+    return number;
+}
+
+/**
+ * Converts the value of a numeric option. Unlike Number(), returns NaN for an empty value instead
+ * of 0, e.g. if the option was set from an unset shell variable.
+ */
+function toNumber(value: string) {
+    // allow 1_000_000 just like in code
+    return value.trim() ? Number(value.replaceAll('_', '')) : NaN;
+}
+
+/**
+ * Checks that the workload exists and works with the dataset, and returns its name
+ */
+function parseWorkload(name: string, dataset: string) {
+    const workload = getQueryWorkload(name);
+    if (!workload) {
+        throw new UsageError(`Unknown workload "${name}"`);
+    }
+    if (!isWorkloadAvailable(workload, dataset)) {
+        const datasets = workload.datasets!.join(' or ');
+        throw new UsageError(
+            `Workload "${workload.name}" requires dataset ${datasets}, got "${dataset}"`,
+        );
+    }
+    return workload.name;
+}
+
+function parseCheckpoints(value: string | undefined) {
+    if (value === undefined) {
+        return undefined;
+    }
+    const checkpoints = value
+        .split(',')
+        .map((part) => parsePositiveInteger('checkpoints', part.trim())!);
+    if (checkpoints.some((checkpoint, i) => i > 0 && checkpoint <= checkpoints[i - 1])) {
+        throw new UsageError(`--checkpoints must be in ascending order, got "${value}"`);
+    }
+    return checkpoints;
+}
+
+function parseChurnDistribution(value: string | undefined): ChurnDistribution {
+    if (value === undefined) {
+        return DEFAULT_CHURN_WORKLOAD.distribution;
+    }
+    if (!isOneOf(CHURN_DISTRIBUTIONS, value)) {
+        throw new UsageError(
+            `--churn-distribution must be one of ${CHURN_DISTRIBUTIONS.join(', ')}, got "${value}"`,
+        );
+    }
+    return value;
+}
+
+function parseMeasurementMode(value: string | undefined): MeasurementMode {
+    if (value === undefined) {
+        return DEFAULT_MEASUREMENT_MODE;
+    }
+    if (!isOneOf(MEASUREMENT_MODES, value)) {
+        throw new UsageError(
+            `--measure must be one of ${MEASUREMENT_MODES.join(', ')}, got "${value}"`,
+        );
+    }
+    return value;
+}
+
+function parseSchedulingMode(value: string | undefined): SchedulingMode {
+    if (value === undefined) {
+        return DEFAULT_SCHEDULING_MODE;
+    }
+    if (!isOneOf(SCHEDULING_MODES, value)) {
+        throw new UsageError(
+            `--schedule must be one of ${SCHEDULING_MODES.join(', ')}, got "${value}"`,
+        );
+    }
+    return value;
+}
+
+function parseDataset(value: string | undefined) {
+    if (value === undefined) {
+        return DEFAULT_DATASET_PROFILE;
+    }
+    const names = DATASET_PROFILES.map((profile) => profile.name);
+    if (!names.includes(value)) {
+        throw new UsageError(`--dataset must be one of ${names.join(', ')}, got "${value}"`);
+    }
+    return value;
+}
+
+function parseSeed(value: string | undefined) {
+    if (value === undefined) {
+        return undefined;
+    }
+    const number = toNumber(value);
+    if (!Number.isInteger(number) || number < 0 || number >= 2 ** 32) {
+        throw new UsageError(`--seed must be an integer between 0 and 2^32 - 1, got "${value}"`);
+    }
+    return number;
+}
+
+function getAvailableWorkloadNames(dataset: string) {
+    return QUERY_WORKLOADS.filter((w) => isWorkloadAvailable(w, dataset)).map((w) => w.name);
+}
+
+function isOneOf<T extends string>(values: ReadonlyArray<T>, value: string): value is T {
+    return (values as ReadonlyArray<string>).includes(value);
+}
@@ -0,0 +1,74 @@
+import { aql, Database } from 'arangojs';
+import { DocumentCollection } from 'arangojs/collections';
+import { ChurnStore } from './churn.ts';
+import { DatasetProfile, generateDocument } from './datasets.ts';
+import { Random } from './random.ts';
+import { WriteStore } from './write-workloads.ts';
+
+/**
+ * Writes generated documents into the test collection and removes or updates random slices of it
+ */
+export class CollectionStore implements WriteStore, ChurnStore {
+    /**
+     * @param dataRandom drives the generated documents
+     * @param sliceRandom drives which documents are removed or updated
+     */
+    constructor(
+        private readonly database: Database,
+        private readonly collection: DocumentCollection,
+        private readonly dataset: DatasetProfile,
+        private readonly dataRandom: Random,
+        private readonly sliceRandom: Random,
+    ) {}
+
+    async insert(count = 1) {
+        // generate the values here instead of using RANDOM_TOKEN() / RAND() so they depend on
+        // the seed
+        const docs = Array.from({ length: count }, () =>
+            generateDocument(this.dataset, this.dataRandom),
+        );
+        const cursor = await this.database.query(aql`
+            FOR doc IN ${docs} INSERT doc IN ${this.collection}
+        `);
+        return cursor.extra.stats?.writesExecuted ?? count;
+    }
+
+    async remove(count = 1) {
+        // remove random slice of documents
+        // the "gauge" field is evenly distributed between 0 and 1
+        // there is a regular (persistent) index on gauge, so we can cheaply do this
+        const { database, collection } = this;
+        const targetGauge = this.sliceRandom.next();
+        const cursor = await database.query(aql`
+            FOR doc IN ${collection} FILTER doc.gauge > ${targetGauge} SORT doc.gauge ASC LIMIT 0, ${count} REMOVE doc IN ${collection}
+        `);
+        // can be less than count if there are not enough documents above targetGauge
+        return cursor.extra.stats?.writesExecuted ?? 0;
+    }
+
+    /**
+     * Replaces the indexed fields of a random slice of documents with new values
+     */
+    async update(count = 1) {
+        // keep the gauge so the distribution the removals rely on does not change
+        const values = Array.from({ length: count }, () => {
+            const { gauge, ...doc } = generateDocument(this.dataset, this.dataRandom);
+            return doc;
+        });
+        const { database, collection } = this;
+        const targetGauge = this.sliceRandom.next();
+        const cursor = await database.query(aql`
+            LET keys = (
+                FOR doc IN ${collection} FILTER doc.gauge > ${targetGauge} SORT doc.gauge ASC LIMIT 0, ${count} RETURN doc._key
+            )
+            FOR i IN 0..${values.length - 1} FILTER i < LENGTH(keys)
+            UPDATE keys[i] WITH ${values}[i] IN ${collection}
+        `);
+        // can be less than count if there are not enough documents above targetGauge
+        return cursor.extra.stats?.writesExecuted ?? 0;
+    }
+
+    async count() {
+        return (await this.collection.count()).count;
+    }
+}
@@ -1,12 +1,26 @@
 import { BenchmarkConfig, time } from './async-bench.ts';
-import { runComparison } from './compare.ts';
+import {
+    BaselineComparison,
+    CandidateError,
+    CandidateResult,
+    DEFAULT_ROUNDS,
+    DEFAULT_SCHEDULING_MODE,
+    runComparison,
+    SchedulingMode,
+} from './compare.ts';
 import chalk from 'chalk';
+import {
+    candidateResultToRecord,
+    failedCandidateToRecord,
+    writeResultFile,
+} from './result-export.ts';
+import { loadBaseline, saveBaseline } from './baseline.ts';
+import { formatDistribution, formatHistogram, formatMs, formatThroughput } from './format.ts';
+import { Random } from './random.ts';
+import { ConfidenceInterval, SampleComparison } from './stats.ts';
 
 const SHOW_CYCLE_INFO = true;
-
-function formatMs(seconds: number) {
-    return `${(seconds * 1000).toFixed(3)}ms`;
-}
+const SHOW_HISTOGRAM = true;
 
 function formatPercent(fraction: number) {
     return `${(fraction * 100).toFixed(2)}%`;
@@ -35,30 +49,185 @@ function formatOverhead(x: {
     return `${formatMs(x.overheadMin)} \u2013 ${formatMs(x.overheadMax)} (${formatPercent(x.relativeOverheadMin)} \u2013 ${formatPercent(x.relativeOverheadMax)})`;
 }
 
+function formatSignedMs(seconds: number) {
+    return `${seconds >= 0 ? '+' : ''}${formatMs(seconds)}`;
+}
+
+function formatPValue(pValue: number) {
+    return pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`;
+}
+
+function formatInterval(interval: ConfidenceInterval, format: (value: number) => string) {
+    return `${format(interval.estimate)} [${format(interval.lower)}, ${format(interval.upper)}]`;
+}
+
+function formatStatistics(x: SampleComparison) {
+    const formatRatio = (ratio: number) => `\u00d7${ratio.toFixed(3)}`;
+    const confidence = `${(x.confidenceLevel * 100).toFixed()}% CI`;
+    return [
+        `median ${formatInterval(x.medianDifference, formatSignedMs)}`,
+        `${formatInterval(x.medianRatio, formatRatio)} (${confidence})`,
+        `Cliff's delta ${x.cliffsDelta.toFixed(2)} (${x.effectSize})`,
+        formatPValue(x.pValue),
+    ].join(', ');
+}
+
+function formatErrorLocation({ round, cycle, iteration }: CandidateError) {
+    const location =
+        cycle === undefined
+            ? 'outside of the iterations'
+            : `in cycle ${cycle + 1}, iteration ${iteration! + 1}`;
+    return `round ${round + 1}, ${location}`;
+}
+
+function formatBaselineComparison(x: BaselineComparison) {
+    const baseline = `baseline: ${formatMs(x.baselineMeanTime)}`;
+    switch (x.verdict) {
+        case 'regression':
+            return chalk.red.bold(`  Regression: slower than ${baseline} by ${formatOverhead(x)}`);
+        case 'improvement':
+            return chalk.green(
+                `  Improvement: faster than ${baseline} by ${formatOverhead({
+                    overheadMin: -x.overheadMax,
+                    relativeOverheadMin: -x.relativeOverheadMax,
+                    overheadMax: -x.overheadMin,
+                    relativeOverheadMax: -x.relativeOverheadMin,
+                })}`,
+            );
+        case 'unchanged':
+            return `  No significant difference to ${baseline}`;
+    }
+}
+
 interface BenchmarkSuiteResult {
     hasErrors: boolean;
+    hasRegressions: boolean;
+    candidates: ReadonlyArray<CandidateResult>;
 }
 
-export async function runComparisons(benchmarks: BenchmarkConfig[]): Promise<BenchmarkSuiteResult> {
+export interface ComparisonSuiteOptions {
+    /**
+     * The name of the suite, used in the name of the result files
+     */
+    readonly name?: string;
+
+    /**
+     * Settings that apply to all candidates (e.g. how times were measured), recorded in the result
+     * file
+     */
+    readonly parameters?: Readonly<Record<string, unknown>>;
+
+    /**
+     * The directory to write the result files to
+     */
+    readonly resultsDirectory?: string;
+
+    /**
+     * The name of a baseline to compare each candidate with
+     */
+    readonly baseline?: string;
+
+    /**
+     * If set, the result is stored as a baseline of this name
+     */
+    readonly saveBaseline?: string;
+
+    /**
+     * The directory baselines are stored in
+     */
+    readonly baselinesDirectory?: string;
+
+    /**
+     * The number of rounds whose samples are combined (default: 3)
+     */
+    readonly rounds?: number;
+
+    /**
+     * The number of rounds before those whose samples are discarded (default: 0)
+     */
+    readonly warmUpRounds?: number;
+
+    /**
+     * How the cycles of the candidates are ordered within a round (default: random)
+     */
+    readonly scheduling?: SchedulingMode;
+
+    /**
+     * Drives the random scheduling, so a run can be replayed with the same order
+     */
+    readonly random?: Random;
+
+    /**
+     * The number of times a failed benchmark run of a candidate is retried (default: 0)
+     */
+    readonly retries?: number;
+
+    /**
+     * Decides if a failed run is retried, e.g. only on network errors (default: retry all errors)
+     */
+    readonly shouldRetry?: (error: unknown) => boolean;
+}
+
+export async function runComparisons(
+    benchmarks: BenchmarkConfig[],
+    options: ComparisonSuiteOptions = {},
+): Promise<BenchmarkSuiteResult> {
     const startTime = time();
+    const startDate = new Date();
+    const suiteName = options.name ?? 'comparison';
+    // load this first so we fail early if the baseline does not exist
+    const baseline = options.baseline
+        ? await loadBaseline(options.baseline, suiteName, options.baselinesDirectory)
+        : undefined;
     console.log('');
     console.log('Running comparison suite');
+    for (const [key, value] of Object.entries(options.parameters ?? {})) {
+        console.log(chalk.grey(`  ${key}: ${value}`));
+    }
+    console.log(chalk.grey(`  scheduling: ${options.scheduling ?? DEFAULT_SCHEDULING_MODE}`));
     let index = 1;
     let erroredCount = 0;
+    let regressionCount = 0;
 
-    const result = await runComparison(benchmarks, {
-        onCycleDone: (cycle) => {
-            if (SHOW_CYCLE_INFO) {
+    const result = await runComparison(
+        benchmarks,
+        {
+            onCycleDone: (cycle) => {
+                if (SHOW_CYCLE_INFO) {
+                    console.log(
+                        chalk.grey(
+                            `  Cycle ${cycle.index + 1} of ${cycle.name}: ${cycle.iterationCount} iterations, ` +
+                                `current estimate: ${formatTimings(cycle.timingsSoFar)} per iteration, ` +
+                                `${formatElapsedTime(cycle)}`,
+                        ),
+                    );
+                }
+            },
+        },
+        {
+            baseline,
+            rounds: options.rounds,
+            warmUpRounds: options.warmUpRounds,
+            scheduling: options.scheduling,
+            random: options.random,
+            onRoundStart: (round, isWarmUp) => {
+                const { warmUpRounds = 0, rounds = DEFAULT_ROUNDS } = options;
                 console.log(
-                    chalk.grey(
-                        `  Cycle ${cycle.index + 1} of ${cycle.name}: ${cycle.iterationCount} iterations, ` +
-                            `current estimate: ${formatTimings(cycle.timingsSoFar)} per iteration, ` +
-                            `${formatElapsedTime(cycle)}`,
-                    ),
+                    isWarmUp
+                        ? chalk.bold(`Warm-up round ${round + 1} of ${warmUpRounds}`)
+                        : chalk.bold(`Round ${round - warmUpRounds + 1} of ${rounds}`),
                 );
-            }
+            },
+            retries: options.retries,
+            shouldRetry: options.shouldRetry,
+            onError: (config, error, willRetry) => {
+                console.log(chalk.red(`  ${error.message} (${formatErrorLocation(error)})`));
+                if (willRetry) {
+                    console.log(chalk.yellow(`  Retrying ${config.name}`));
+                }
+            },
         },
-    });
+    );
 
     for (const candidate of result.candidates) {
         console.log('');
@@ -66,6 +235,13 @@ export async function runComparisons(benchmarks: BenchmarkConfig[]): Promise<Ben
             chalk.yellow.bold(`[${index} / ${benchmarks.length}] ${candidate.config.name}...`),
         );
         console.log(chalk.green(`  ${formatTimings(candidate.benchmark)}`) + ` per iteration`);
+        console.log(`  ${formatDistribution(candidate.benchmark)}`);
+        console.log(`  ${formatThroughput(candidate.benchmark)}`);
+        if (SHOW_HISTOGRAM) {
+            for (const line of formatHistogram(candidate.benchmark.histogram)) {
+                console.log(chalk.grey(`    ${line}`));
+            }
+        }
         console.log(
             `  ${formatElapsedTime(candidate.benchmark)} for ${candidate.benchmark.iterationCount} iterations in ${candidate.benchmark.cycles} cycles`,
         );
@@ -76,9 +252,58 @@ export async function runComparisons(benchmarks: BenchmarkConfig[]): Promise<Ben
                 chalk.yellow.bgBlack(`  Slower than fastest by ${formatOverhead(candidate)}`),
             );
         }
+        if (candidate.statistics) {
+            console.log(chalk.grey(`    vs. fastest: ${formatStatistics(candidate.statistics)}`));
+        }
+        if (candidate.baseline) {
+            console.log(formatBaselineComparison(candidate.baseline));
+            console.log(
+                chalk.grey(`    vs. baseline: ${formatStatistics(candidate.baseline.statistics)}`),
+            );
+            if (candidate.baseline.verdict === 'regression') {
+                regressionCount++;
+            }
+        } else if (baseline) {
+            console.log(chalk.grey(`  Not part of baseline "${baseline.name}"`));
+        }
+        if (candidate.retriedErrors) {
+            console.log(
+                chalk.yellow(`  Succeeded after ${candidate.retriedErrors.length} failed runs`),
+            );
+        }
         index++;
     }
 
+    for (const { config, errors } of result.failedCandidates) {
+        const lastError = errors[errors.length - 1];
+        console.log('');
+        console.log(chalk.yellow.bold(`[${index} / ${benchmarks.length}] ${config.name}...`));
+        console.log(
+            chalk.red.bold(`  Failed in ${formatErrorLocation(lastError)}: ${lastError.message}`),
+        );
+        if (lastError.stack) {
+            console.log(chalk.grey(lastError.stack));
+        }
+        erroredCount++;
+        index++;
+    }
+
+    const resultFiles = await writeResultFile(
+        {
+            kind: 'comparison',
+            name: suiteName,
+            parameters: options.parameters,
+            startTime: startDate.toISOString(),
+            endTime: new Date().toISOString(),
+            results: [
+                ...result.candidates.map(candidateResultToRecord),
+                ...result.failedCandidates.map(failedCandidateToRecord),
+            ],
+            schedule: result.schedule,
+        },
+        options.resultsDirectory,
+    );
+
     const elapsed = time() - startTime;
     const elapsedMinutes = Math.floor(elapsed / 60);
     const elapsedSeconds = Math.floor(elapsed % 60);
@@ -92,8 +317,33 @@ export async function runComparisons(benchmarks: BenchmarkConfig[]): Promise<Ben
     if (erroredCount) {
         console.log(chalk.red.bold(`${erroredCount} benchmarks reported an error.`));
     }
+    if (baseline) {
+        if (regressionCount) {
+            console.log(
+                chalk.red.bold(
+                    `FAILED: ${regressionCount} benchmarks regressed compared to baseline "${baseline.name}".`,
+                ),
+            );
+        } else {
+            console.log(
+                chalk.green.bold(`PASSED: No regressions compared to baseline "${baseline.name}".`),
+            );
+        }
+    }
+    console.log(`Results written to ${resultFiles.join(', ')}`);
+    if (options.saveBaseline) {
+        const path = await saveBaseline(
+            options.saveBaseline,
+            suiteName,
+            result,
+            options.baselinesDirectory,
+        );
+        console.log(`Baseline "${options.saveBaseline}" written to ${path}`);
+    }
     console.log('');
     return {
         hasErrors: erroredCount > 0,
+        hasRegressions: regressionCount > 0,
+        candidates: result.candidates,
     };
 }
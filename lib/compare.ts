@@ -1,50 +1,294 @@
 import {
-    benchmark,
     BenchmarkConfig,
     BenchmarkExecutionCallbacks,
+    BenchmarkIterationError,
     BenchmarkResult,
+    BenchmarkRun,
 } from './async-bench.ts';
+import { createSeed, Random } from './random.ts';
+import { BootstrapOptions, compareSamples, SampleComparison } from './stats.ts';
 
-const COMPARISON_ITERATIONS = 3;
+export const DEFAULT_ROUNDS = 3;
+
+/**
+ * How the cycles of the candidates are ordered within a round:
+ * - sequential: all cycles of one candidate, then all cycles of the next one
+ * - round-robin: one cycle of each candidate in turn, starting with another candidate each round
+ * - random: each cycle is given to a randomly picked candidate
+ */
+export const SCHEDULING_MODES = ['sequential', 'round-robin', 'random'] as const;
+
+export type SchedulingMode = (typeof SCHEDULING_MODES)[number];
+
+export const DEFAULT_SCHEDULING_MODE: SchedulingMode = 'random';
 
 export interface ComparisonBenchmarkResult {
     readonly candidates: CandidateResult[];
+
+    /**
+     * The candidates that failed and were given up. They are not part of the ranking.
+     */
+    readonly failedCandidates: FailedCandidate[];
+
+    /**
+     * The cycles of all rounds in the order they were executed
+     */
+    readonly schedule: ScheduledCycle[];
 }
 
-export interface CandidateResult {
+/**
+ * One cycle of a candidate, as part of the order in which the cycles were executed
+ */
+export interface ScheduledCycle {
+    /**
+     * The zero-based index of the round, counting the warm-up rounds
+     */
+    readonly round: number;
+
+    /**
+     * True if the samples of this cycle were discarded
+     */
+    readonly isWarmUp: boolean;
+    readonly candidate: string;
+
+    /**
+     * The zero-based index of the cycle within the candidate's run in this round
+     */
+    readonly cycle: number;
+}
+
+export interface CandidateResult extends Overhead {
     readonly config: BenchmarkConfig;
     readonly benchmark: BenchmarkResult;
     readonly isFastest: boolean;
-    readonly overheadMin: number;
-    readonly relativeOverheadMin: number;
-    readonly overheadMax: number;
-    readonly relativeOverheadMax: number;
+
+    /**
+     * How big and how certain the difference to the fastest candidate is (undefined for the fastest
+     * candidate itself)
+     */
+    readonly statistics?: SampleComparison;
+
+    /**
+     * The comparison with the same candidate in the baseline (if a baseline was given and it
+     * contains this candidate)
+     */
+    readonly baseline?: BaselineComparison;
+
+    /**
+     * The errors of runs that failed and were retried successfully
+     */
+    readonly retriedErrors?: ReadonlyArray<CandidateError>;
+}
+
+/**
+ * An error in a benchmark run of a candidate
+ */
+export interface CandidateError {
+    /**
+     * The message of the original error
+     */
+    readonly message: string;
+
+    /**
+     * The stack of the original error (not the one of the wrapping BenchmarkIterationError)
+     */
+    readonly stack?: string;
+
+    /**
+     * The zero-based index of the comparison round, counting the warm-up rounds
+     */
+    readonly round: number;
+
+    /**
+     * The zero-based index of the cycle (undefined if a hook failed)
+     */
+    readonly cycle?: number;
+
+    /**
+     * The zero-based index of the iteration within the cycle (undefined if a hook failed)
+     */
+    readonly iteration?: number;
+}
+
+export interface FailedCandidate {
+    readonly config: BenchmarkConfig;
+
+    /**
+     * All errors of the candidate, including the ones of runs that were retried. The last one made
+     * us give up.
+     */
+    readonly errors: ReadonlyArray<CandidateError>;
+}
+
+/**
+ * The samples of an earlier comparison run, identified by candidate name
+ */
+export interface ComparisonBaseline {
+    readonly name: string;
+    readonly candidates: ReadonlyArray<BaselineCandidate>;
+}
+
+export interface BaselineCandidate {
+    readonly name: string;
+    readonly meanTime: number;
+    readonly relativeMarginOfError: number;
+    readonly samples: number[];
+}
+
+/**
+ * How a candidate performs compared to the baseline.
+ *
+ * For a regression, the overhead is by how much the candidate got slower. For an improvement, the
+ * overhead is negative and indicates by how much it got faster. It's zero if unchanged.
+ */
+export interface BaselineComparison extends Overhead {
+    readonly verdict: 'regression' | 'improvement' | 'unchanged';
+    readonly baselineMeanTime: number;
+
+    /**
+     * How big and how certain the difference to the baseline is
+     */
+    readonly statistics: SampleComparison;
+}
+
+export interface ComparisonOptions {
+    /**
+     * If specified, each candidate is compared with the candidate of the same name in the baseline
+     */
+    readonly baseline?: ComparisonBaseline;
+
+    /**
+     * The number of rounds whose samples are combined into the result (default: 3)
+     */
+    readonly rounds?: number;
+
+    /**
+     * The number of rounds before those whose samples are discarded, e.g. so that caches are warm
+     * (default: 0)
+     */
+    readonly warmUpRounds?: number;
+
+    /**
+     * How the cycles of the candidates are ordered within a round (default: random)
+     */
+    readonly scheduling?: SchedulingMode;
+
+    /**
+     * Drives the random scheduling (default: seeded randomly)
+     */
+    readonly random?: Random;
+
+    /**
+     * Configures the confidence intervals of the differences between candidates
+     */
+    readonly bootstrap?: BootstrapOptions;
+
+    /**
+     * Called at the start of every round
+     */
+    readonly onRoundStart?: (round: number, isWarmUp: boolean) => void;
+
+    /**
+     * The number of times a failed benchmark run of a candidate is retried before the candidate is
+     * given up (default: 0)
+     */
+    readonly retries?: number;
+
+    /**
+     * Decides if a failed run is retried, e.g. only on network errors (default: retry all errors).
+     * Gets the original error thrown by the candidate.
+     */
+    readonly shouldRetry?: (error: unknown) => boolean;
+
+    /**
+     * Called whenever a benchmark run of a candidate fails
+     */
+    readonly onError?: (config: BenchmarkConfig, error: CandidateError, willRetry: boolean) => void;
 }
 
 export async function runComparison(
     benchmarkConfigs: BenchmarkConfig[],
     callbacks?: BenchmarkExecutionCallbacks,
+    options: ComparisonOptions = {},
 ): Promise<ComparisonBenchmarkResult> {
+    const {
+        rounds = DEFAULT_ROUNDS,
+        warmUpRounds = 0,
+        scheduling = DEFAULT_SCHEDULING_MODE,
+        random = new Random(createSeed()),
+    } = options;
     const resultMap = new Map<string, BenchmarkResult[]>();
+    const errorMap = new Map<string, CandidateError[]>(
+        benchmarkConfigs.map((config) => [config.name, []]),
+    );
+    const failedNames = new Set<string>();
     const configMap = Object.fromEntries(benchmarkConfigs.map((config) => [config.name, config]));
-    for (let i = 0; i < COMPARISON_ITERATIONS; i++) {
-        for (const config of benchmarkConfigs) {
-            const benchmarkResult = await benchmark(config, callbacks);
-
-            let candidateResult = resultMap.get(config.name);
-            if (candidateResult) {
-                candidateResult.push(benchmarkResult);
+    const schedule: ScheduledCycle[] = [];
+    for (let round = 0; round < warmUpRounds + rounds; round++) {
+        const isWarmUp = round < warmUpRounds;
+        options.onRoundStart?.(round, isWarmUp);
+        // a failed candidate would only fail again, and its results could not be compared
+        const runs: ScheduledRun[] = benchmarkConfigs
+            .filter((config) => !failedNames.has(config.name))
+            .map((config) => ({
+                config,
+                run: new BenchmarkRun(config, callbacks),
+                isStarted: false,
+                isFailed: false,
+                failureCount: 0,
+            }));
+        const pendingRuns = [...runs];
+        let nextIndex = round;
+        while (pendingRuns.length) {
+            const index =
+                scheduling === 'random'
+                    ? random.integer(0, pendingRuns.length - 1)
+                    : scheduling === 'round-robin'
+                    ? nextIndex % pendingRuns.length
+                    : 0;
+            const scheduledRun = pendingRuns[index];
+            const name = scheduledRun.config.name;
+            const cycle = await advanceRun(
+                scheduledRun,
+                round,
+                errorMap.get(name)!,
+                callbacks,
+                options,
+            );
+            if (cycle !== undefined) {
+                schedule.push({ round, isWarmUp, candidate: name, cycle });
+            }
+            if (scheduledRun.result || scheduledRun.isFailed) {
+                pendingRuns.splice(index, 1);
+                nextIndex = index;
             } else {
-                resultMap.set(config.name, [benchmarkResult]);
+                nextIndex = index + 1;
+            }
+        }
+
+        for (const { config, result, isFailed } of runs) {
+            if (isFailed) {
+                failedNames.add(config.name);
+            } else if (result && !isWarmUp) {
+                resultMap.set(config.name, [...(resultMap.get(config.name) ?? []), result]);
             }
         }
     }
 
-    const benchmarkResults = Array.from(resultMap.entries()).map(([name, results]) => ({
-        result: BenchmarkResult.add(...results),
+    const failedCandidates: FailedCandidate[] = Array.from(failedNames, (name) => ({
         config: configMap[name],
-        name,
+        errors: errorMap.get(name)!,
     }));
+    const benchmarkResults = Array.from(resultMap.entries())
+        .filter(([name]) => !failedNames.has(name))
+        .map(([name, results]) => ({
+            result: BenchmarkResult.add(...results),
+            config: configMap[name],
+            name,
+        }));
+    if (!benchmarkResults.length) {
+        return { candidates: [], failedCandidates, schedule };
+    }
 
     const orderedResults = benchmarkResults.sort((lhs, rhs) => {
         if (getPessimisticMean(lhs.result) > getPessimisticMean(rhs.result)) {
@@ -59,9 +303,19 @@ export async function runComparison(
     const fastestResults = orderedResults.filter(
         (result) => compare(result.result.samples, fastestSamples) >= 0,
     );
+    const getRetriedErrors = (name: string) => {
+        const errors = errorMap.get(name);
+        return errors?.length ? { retriedErrors: errors } : {};
+    };
+    const getStatistics = (res: (typeof orderedResults)[number]) =>
+        res === fastestResult
+            ? {}
+            : { statistics: compareSamples(res.result.samples, fastestSamples, options.bootstrap) };
     const candidates: CandidateResult[] = fastestResults.map((res) => ({
         config: res.config,
         benchmark: res.result,
+        ...getStatistics(res),
+        ...getRetriedErrors(res.name),
         isFastest: true,
         overheadMin: 0,
         relativeOverheadMin: 0,
@@ -73,51 +327,198 @@ export async function runComparison(
     );
 
     for (const result of nonFastestResults) {
-        const calculateOverhead = (predicate: (comparisonResult: number) => boolean) => {
-            let effectiveMax =
-                (getPessimisticMean(result.result) - getPessimisticMean(fastestResults[0].result)) *
-                2;
-            const steps = 20;
-            let min = 0;
-            let max = Infinity;
-            for (let i = 0; i < steps; i++) {
-                const handicap = (min + effectiveMax) / 2;
-                const handicappedFastestSamples = fastestSamples.map((sample) => sample + handicap);
-                if (predicate(compare(result.result.samples, handicappedFastestSamples))) {
-                    // with this much handicap, we have reached the fastest, so overhead can't be even worse
-                    max = handicap;
-                    effectiveMax = handicap;
-                } else {
-                    // we didn't catch up, so overhead must be worse than handicap
-                    min = handicap;
-                    if (!isFinite(max)) {
-                        effectiveMax *= 2;
-                    }
-                }
-                if (max / min < 1.0001) {
-                    break;
-                }
-            }
-            return max;
-        };
-
-        let overheadMin = calculateOverhead((x) => x >= 0);
-        let overheadMax = calculateOverhead((x) => x > 0);
         candidates.push({
             config: result.config,
             benchmark: result.result,
+            ...getStatistics(result),
+            ...getRetriedErrors(result.name),
             isFastest: false,
-            overheadMin: overheadMin,
-            relativeOverheadMin: overheadMin / fastestResult.result.meanTime,
-            overheadMax: overheadMax,
-            relativeOverheadMax: overheadMax / fastestResult.result.meanTime,
+            ...getOverhead(result.result, fastestResult.result),
         });
     }
 
-    return { candidates };
+    if (!options.baseline) {
+        return { candidates, failedCandidates, schedule };
+    }
+    const baseline = options.baseline;
+    return {
+        failedCandidates,
+        schedule,
+        candidates: candidates.map((candidate) => {
+            const baselineCandidate = baseline.candidates.find(
+                (c) => c.name === candidate.config.name,
+            );
+            if (!baselineCandidate) {
+                return candidate;
+            }
+            return {
+                ...candidate,
+                baseline: compareWithBaseline(
+                    candidate.benchmark,
+                    baselineCandidate,
+                    options.bootstrap,
+                ),
+            };
+        }),
+    };
+}
+
+/**
+ * The run of a candidate in one comparison round
+ */
+interface ScheduledRun {
+    readonly config: BenchmarkConfig;
+    run: BenchmarkRun;
+    isStarted: boolean;
+    isFailed: boolean;
+
+    /**
+     * The number of failed attempts in this round
+     */
+    failureCount: number;
+    result?: BenchmarkResult;
+}
+
+/**
+ * Runs the next cycle of a candidate, starting the run before the first cycle and finishing it
+ * after the last one. If anything fails, the run starts over (if retries are left) or is given up.
+ *
+ * @param errors receives the errors of all failed attempts
+ * @returns the index of the cycle, or undefined if the run failed
+ */
+async function advanceRun(
+    scheduledRun: ScheduledRun,
+    round: number,
+    errors: CandidateError[],
+    callbacks: BenchmarkExecutionCallbacks | undefined,
+    { retries = 0, shouldRetry = () => true, onError }: ComparisonOptions,
+): Promise<number | undefined> {
+    const { config, run } = scheduledRun;
+    try {
+        if (!scheduledRun.isStarted) {
+            scheduledRun.isStarted = true;
+            await run.start();
+        }
+        await run.runCycle();
+        if (run.isDone) {
+            scheduledRun.result = await run.finish();
+        }
+        return run.cycles - 1;
+    } catch (err) {
+        const cause = err instanceof BenchmarkIterationError ? err.cause : err;
+        const error: CandidateError = {
+            message: cause instanceof Error ? cause.message : String(cause),
+            stack: cause instanceof Error ? cause.stack : undefined,
+            round,
+            cycle: err instanceof BenchmarkIterationError ? err.cycle : undefined,
+            iteration: err instanceof BenchmarkIterationError ? err.iteration : undefined,
+        };
+        errors.push(error);
+        const willRetry = scheduledRun.failureCount < retries && shouldRetry(cause);
+        onError?.(config, error, willRetry);
+        scheduledRun.failureCount++;
+        if (willRetry) {
+            scheduledRun.run = new BenchmarkRun(config, callbacks);
+            scheduledRun.isStarted = false;
+        } else {
+            scheduledRun.isFailed = true;
+        }
+        return undefined;
+    }
+}
+
+function compareWithBaseline(
+    result: BenchmarkResult,
+    baseline: BaselineCandidate,
+    bootstrap: BootstrapOptions | undefined,
+): BaselineComparison {
+    const comparison = compare(result.samples, baseline.samples);
+    const statistics = compareSamples(result.samples, baseline.samples, bootstrap);
+    if (comparison < 0) {
+        return {
+            verdict: 'regression',
+            baselineMeanTime: baseline.meanTime,
+            statistics,
+            ...getOverhead(result, baseline),
+        };
+    }
+    if (comparison > 0) {
+        const saving = getOverhead(baseline, result);
+        return {
+            verdict: 'improvement',
+            baselineMeanTime: baseline.meanTime,
+            statistics,
+            overheadMin: -saving.overheadMax,
+            relativeOverheadMin: -saving.overheadMax / baseline.meanTime,
+            overheadMax: -saving.overheadMin,
+            relativeOverheadMax: -saving.overheadMin / baseline.meanTime,
+        };
+    }
+    return {
+        verdict: 'unchanged',
+        baselineMeanTime: baseline.meanTime,
+        statistics,
+        overheadMin: 0,
+        relativeOverheadMin: 0,
+        overheadMax: 0,
+        relativeOverheadMax: 0,
+    };
+}
+
+type SampledTimings = Pick<BenchmarkResult, 'samples' | 'meanTime' | 'relativeMarginOfError'>;
+
+export interface Overhead {
+    readonly overheadMin: number;
+    readonly relativeOverheadMin: number;
+    readonly overheadMax: number;
+    readonly relativeOverheadMax: number;
+}
+
+/**
+ * Determines by how much the samples of result are slower than the ones of reference
+ *
+ * overheadMin is the smallest handicap that, when added to reference, makes the samples
+ * indistinguishable; overheadMax is the smallest handicap that makes reference slower.
+ */
+function getOverhead(result: SampledTimings, reference: SampledTimings): Overhead {
+    const referenceSamples = reference.samples;
+    const calculateOverhead = (predicate: (comparisonResult: number) => boolean) => {
+        let effectiveMax = (getPessimisticMean(result) - getPessimisticMean(reference)) * 2;
+        const steps = 20;
+        let min = 0;
+        let max = Infinity;
+        for (let i = 0; i < steps; i++) {
+            const handicap = (min + effectiveMax) / 2;
+            const handicappedReferenceSamples = referenceSamples.map((sample) => sample + handicap);
+            if (predicate(compare(result.samples, handicappedReferenceSamples))) {
+                // with this much handicap, we have reached the reference, so overhead can't be even worse
+                max = handicap;
+                effectiveMax = handicap;
+            } else {
+                // we didn't catch up, so overhead must be worse than handicap
+                min = handicap;
+                if (!isFinite(max)) {
+                    effectiveMax *= 2;
+                }
+            }
+            if (max / min < 1.0001) {
+                break;
+            }
+        }
+        return max;
+    };
+
+    const overheadMin = calculateOverhead((x) => x >= 0);
+    const overheadMax = calculateOverhead((x) => x > 0);
+    return {
+        overheadMin,
+        relativeOverheadMin: overheadMin / reference.meanTime,
+        overheadMax,
+        relativeOverheadMax: overheadMax / reference.meanTime,
+    };
 }
 
-function getPessimisticMean(result: BenchmarkResult) {
+function getPessimisticMean(result: SampledTimings) {
     return result.meanTime * (1 + result.relativeMarginOfError);
 }
 
@@ -182,7 +583,7 @@ const uTable: { [key: string]: ReadonlyArray<number> } = {
  *
  * @returns Returns `-1` if slower, `1` if faster, and `0` if indeterminate.
  */
-function compare(lhs: ReadonlyArray<number>, rhs: ReadonlyArray<number>) {
+export function compare(lhs: ReadonlyArray<number>, rhs: ReadonlyArray<number>) {
     if (lhs == rhs) {
         return 0;
     }
@@ -0,0 +1,175 @@
+import { aql, Database } from 'arangojs';
+import { DocumentCollection } from 'arangojs/collections';
+import { View } from 'arangojs/views';
+import { CATEGORY_COUNT, Document } from './datasets.ts';
+import { Random } from './random.ts';
+
+/**
+ * The number of documents of one category in the collection and in a view
+ */
+export interface CategoryCount {
+    readonly category: number;
+    readonly collectionCount: number;
+    readonly viewCount: number;
+}
+
+/**
+ * The documents looked up in the views by their field1
+ */
+export interface ConsistencySample {
+    /**
+     * Documents that are in the collection, so the views must find them
+     */
+    readonly present: ReadonlyArray<Document>;
+
+    /**
+     * Documents that are not in the collection (e.g. because they were removed or never inserted),
+     * so the views must not find them
+     */
+    readonly absent: ReadonlyArray<Document>;
+}
+
+export interface ConsistencyReport {
+    readonly view: string;
+    readonly collectionCount: number;
+    readonly viewCount: number;
+
+    /**
+     * The categories whose number of documents differs between the collection and the view
+     */
+    readonly categoryMismatches: ReadonlyArray<CategoryCount>;
+
+    /**
+     * The field1 values of present documents the view did not find
+     */
+    readonly missing: ReadonlyArray<string>;
+
+    /**
+     * The field1 values of absent documents the view found
+     */
+    readonly phantoms: ReadonlyArray<string>;
+    readonly isConsistent: boolean;
+}
+
+/**
+ * Picks distinct random documents from the collection
+ *
+ * Can return less than count documents if the same document is picked twice.
+ */
+export async function sampleDocuments(
+    database: Database,
+    collection: DocumentCollection,
+    random: Random,
+    count: number,
+): Promise<Document[]> {
+    // don't go up to 1 because we might not find any then
+    const gauges = Array.from({ length: count }, () => random.next() * 0.9);
+    const cursor = await database.query(aql`
+        FOR gauge IN ${gauges}
+        LET doc = FIRST(
+            FOR doc IN ${collection} FILTER doc.gauge > gauge SORT doc.gauge ASC LIMIT 1 RETURN doc
+        )
+        FILTER doc != null
+        COLLECT key = doc._key INTO docs = doc
+        RETURN FIRST(docs)
+    `);
+    return cursor.all();
+}
+
+/**
+ * Compares the view with the collection: the total number of documents, the number per category
+ * and exact-match lookups of the sampled documents
+ *
+ * Counts the matches in the index instead of returning the documents, because documents that are
+ * still in the index but no longer in the collection would be skipped when reading them.
+ */
+export async function checkViewConsistency(
+    database: Database,
+    collection: DocumentCollection,
+    view: View,
+    sample: ConsistencySample,
+): Promise<ConsistencyReport> {
+    const { count: collectionCount } = await collection.count();
+    // waitForSync so everything written so far is committed
+    const [viewCount] = await (
+        await database.query<number>(aql`
+            FOR a IN ${view} OPTIONS { waitForSync: true } COLLECT WITH COUNT INTO c RETURN c
+        `)
+    ).all();
+
+    const collectionCategories = await (
+        await database.query<{ category: number; count: number }>(aql`
+            FOR doc IN ${collection} COLLECT category = doc.category WITH COUNT INTO count
+            RETURN { category, count }
+        `)
+    ).all();
+    // A category that is only in the view (e.g. of a phantom) can't be listed with a COLLECT on the
+    // view because that reads the documents from the collection, which skips phantoms. So also
+    // check all categories the datasets generate.
+    const collectionCountMap = new Map(collectionCategories.map((c) => [c.category, c.count]));
+    const categories = new Set([
+        ...collectionCountMap.keys(),
+        ...Array.from({ length: CATEGORY_COUNT }, (_, category) => category),
+    ]);
+    const entries = Array.from(categories, (category) => ({
+        category,
+        count: collectionCountMap.get(category) ?? 0,
+    }));
+    const categoryCounts: CategoryCount[] = await (
+        await database.query<CategoryCount>(aql`
+            FOR entry IN ${entries}
+            LET viewCount = FIRST(
+                FOR a IN ${view} SEARCH a.category == entry.category
+                COLLECT WITH COUNT INTO c RETURN c
+            )
+            RETURN { category: entry.category, collectionCount: entry.count, viewCount }
+        `)
+    ).all();
+
+    const missing = await findMatchingValues(
+        database,
+        view,
+        sample.present.map((doc) => doc.field1),
+        false,
+    );
+    const phantoms = await findMatchingValues(
+        database,
+        view,
+        sample.absent.map((doc) => doc.field1),
+        true,
+    );
+    const categoryMismatches = categoryCounts.filter((c) => c.collectionCount !== c.viewCount);
+    return {
+        view: view.name,
+        collectionCount,
+        viewCount,
+        categoryMismatches,
+        missing,
+        phantoms,
+        isConsistent:
+            collectionCount === viewCount &&
+            !categoryMismatches.length &&
+            !missing.length &&
+            !phantoms.length,
+    };
+}
+
+/**
+ * Returns the values the view finds (found = true) or doesn't find (found = false) in field1
+ */
+async function findMatchingValues(
+    database: Database,
+    view: View,
+    values: ReadonlyArray<string>,
+    found: boolean,
+): Promise<string[]> {
+    const cursor = await database.query<string>(aql`
+        FOR value IN ${values}
+        LET count = FIRST(
+            FOR a IN ${view} SEARCH a.field1 == value COLLECT WITH COUNT INTO c RETURN c
+        )
+        FILTER (count > 0) == ${found}
+        RETURN value
+    `);
+    return cursor.all();
+}
@@ -0,0 +1,243 @@
+import { CreateAnalyzerOptions } from 'arangojs/analyzers';
+import { ArangoSearchViewLinkOptions } from 'arangojs/views';
+import { Random } from './random.ts';
+
+const VOCABULARY_SIZE = 10_000;
+
+/**
+ * The analyzer the geo dataset indexes its locations with
+ */
+export const GEO_ANALYZER = 'geo_point';
+const ZIPF_EXPONENT = 1;
+
+/**
+ * Describes the shape of the test documents and how they are indexed
+ *
+ * Every profile includes these fields so the churn and the standard queries work on all of them:
+ * - gauge: evenly distributed between 0 and 1, used to remove random slices of documents
+ * - category: an integer between 0 and 7
+ * - field1: a random 60-character token, unique in practice
+ */
+export interface DatasetProfile {
+    readonly name: string;
+    readonly description: string;
+
+    /**
+     * The fields to index in addition to category and field1
+     */
+    readonly fields: Record<string, ArangoSearchViewLinkOptions>;
+
+    /**
+     * Custom analyzers used in fields, by name. They are created on setup.
+     */
+    readonly analyzers?: Record<string, CreateAnalyzerOptions>;
+
+    /**
+     * Generates the profile-specific fields of one document
+     */
+    generate(random: Random): Record<string, unknown>;
+}
+
+export type Document = Record<string, unknown> & {
+    readonly field1: string;
+    readonly category: number;
+    readonly gauge: number;
+};
+
+/**
+ * A fixed list of pseudo-words. It does not depend on the seed so that queries can refer to words
+ * by their frequency rank.
+ */
+export const VOCABULARY: ReadonlyArray<string> = (() => {
+    const random = Random.forStream(0, 'vocabulary');
+    const words = new Set<string>();
+    while (words.size < VOCABULARY_SIZE) {
+        const length = random.integer(2, 10);
+        words.add(
+            Array.from({ length }, () => String.fromCharCode(97 + random.integer(0, 25))).join(''),
+        );
+    }
+    return Array.from(words);
+})();
+
+/**
+ * The cumulative probabilities of the vocabulary ranks in a Zipf distribution, so that the word
+ * of rank 1 is twice as common as the word of rank 2, three times as common as rank 3 and so on
+ */
+const ZIPF_CUMULATIVE_WEIGHTS: ReadonlyArray<number> = (() => {
+    const weights = VOCABULARY.map((_, rank) => 1 / Math.pow(rank + 1, ZIPF_EXPONENT));
+    const total = weights.reduce((a, b) => a + b, 0);
+    let sum = 0;
+    return weights.map((weight) => (sum += weight / total));
+})();
+
+/**
+ * Picks a word from the vocabulary, with Zipf-distributed frequencies like in natural language
+ */
+export function getZipfWord(random: Random) {
+    const value = random.next();
+    let low = 0;
+    let high = ZIPF_CUMULATIVE_WEIGHTS.length - 1;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (ZIPF_CUMULATIVE_WEIGHTS[mid] < value) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return VOCABULARY[low];
+}
+
+function getText(random: Random, minWords: number, maxWords: number) {
+    return Array.from({ length: random.integer(minWords, maxWords) }, () =>
+        getZipfWord(random),
+    ).join(' ');
+}
+
+const identity: ArangoSearchViewLinkOptions = { analyzers: ['identity'] };
+
+export const DATASET_PROFILES: ReadonlyArray<DatasetProfile> = [
+    {
+        name: 'tokens',
+        description: 'four more random 60-character tokens (field2 - field5)',
+        fields: {
+            field2: identity,
+            field3: identity,
+            field4: identity,
+            field5: identity,
+        },
+        generate: (random) => ({
+            field2: random.token(60),
+            field3: random.token(60),
+            field4: random.token(60),
+            field5: random.token(60),
+        }),
+    },
+    {
+        name: 'text',
+        description: 'natural-language-like title and body with a Zipf-distributed vocabulary',
+        fields: {
+            title: { analyzers: ['text_en', 'identity'] },
+            body: { analyzers: ['text_en'] },
+        },
+        generate: (random) => ({
+            title: getText(random, 3, 10),
+            body: getText(random, 50, 200),
+        }),
+    },
+    {
+        name: 'numeric',
+        description: 'a price, a quantity and a timestamp',
+        fields: {
+            price: identity,
+            quantity: identity,
+            timestamp: identity,
+        },
+        generate: (random) => ({
+            price: Math.round(random.next() * 1_000_000) / 100,
+            quantity: random.integer(0, 1000),
+            // within one year after 2024-01-01
+            timestamp: 1_704_067_200_000 + Math.floor(random.next() * 365 * 24 * 3600 * 1000),
+        }),
+    },
+    {
+        name: 'geo',
+        description: 'a GeoJSON point somewhere in Europe',
+        analyzers: {
+            [GEO_ANALYZER]: { type: 'geojson', properties: { type: 'point' } },
+        },
+        fields: {
+            location: { analyzers: [GEO_ANALYZER] },
+        },
+        generate: (random) => ({
+            location: {
+                type: 'Point',
+                // [longitude, latitude]
+                coordinates: [-10 + random.next() * 40, 35 + random.next() * 25],
+            },
+        }),
+    },
+    {
+        name: 'nested',
+        description: 'an array of tags, an attributes object and an array of line item objects',
+        fields: {
+            tags: identity,
+            attributes: {
+                fields: {
+                    color: identity,
+                    size: identity,
+                },
+            },
+            items: {
+                fields: {
+                    sku: identity,
+                    quantity: identity,
+                },
+            },
+        },
+        generate: (random) => ({
+            tags: Array.from({ length: random.integer(0, 5) }, () => getZipfWord(random)),
+            attributes: {
+                color: ['red', 'green', 'blue', 'black', 'white'][random.integer(0, 4)],
+                size: random.integer(1, 50),
+            },
+            items: Array.from({ length: random.integer(1, 10) }, () => ({
+                sku: `sku-${random.integer(1, 100_000)}`,
+                quantity: random.integer(1, 20),
+            })),
+        }),
+    },
+    {
+        name: 'cardinality',
+        description: 'categories with 2, 1000 and a million distinct values',
+        fields: {
+            lowCardinality: identity,
+            mediumCardinality: identity,
+            highCardinality: identity,
+        },
+        generate: (random) => ({
+            lowCardinality: random.integer(0, 1),
+            mediumCardinality: random.integer(0, 999),
+            highCardinality: random.integer(0, 999_999),
+        }),
+    },
+];
+
+export const DEFAULT_DATASET_PROFILE = 'tokens';
+
+export function getDatasetProfile(name: string): DatasetProfile | undefined {
+    return DATASET_PROFILES.find((profile) => profile.name === name);
+}
+
+/**
+ * The number of distinct values of the category field, which go from 0 to CATEGORY_COUNT - 1
+ */
+export const CATEGORY_COUNT = 8;
+
+/**
+ * Generates a full document (common fields plus the profile-specific ones)
+ */
+export function generateDocument(profile: DatasetProfile, random: Random): Document {
+    return {
+        field1: random.token(60),
+        ...profile.generate(random),
+        category: Math.floor(random.next() * CATEGORY_COUNT),
+        gauge: random.next(),
+    };
+}
+
+/**
+ * Builds the link to the test collection for the given profile
+ */
+export function getDatasetLink(
+    profile: DatasetProfile,
+): Omit<ArangoSearchViewLinkOptions, 'nested'> {
+    return {
+        fields: {
+            field1: identity,
+            ...profile.fields,
+            category: identity,
+        },
+    };
+}
@@ -0,0 +1,136 @@
+import { HistogramBucket, Timings } from './async-bench.ts';
+import { ConsistencyReport } from './consistency.ts';
+import { LatencyWindow } from './latency-windows.ts';
+import { QueryPlanSummary } from './query-plan.ts';
+import { QueryProfileSummary } from './query-profile.ts';
+
+const HISTOGRAM_BAR_WIDTH = 40;
+
+/**
+ * Formats a duration given in seconds as milliseconds
+ */
+export function formatMs(seconds: number) {
+    return `${(seconds * 1000).toFixed(3)}ms`;
+}
+
+function formatBytes(bytes: number) {
+    return bytes < 1024 * 1024
+        ? `${(bytes / 1024).toFixed(1)}KiB`
+        : `${(bytes / 1024 / 1024).toFixed(1)}MiB`;
+}
+
+/**
+ * Formats the distribution statistics of the given timings as a single line
+ */
+export function formatDistribution(
+    timings: Pick<
+        Timings,
+        | 'minTime'
+        | 'medianTime'
+        | 'p90Time'
+        | 'p95Time'
+        | 'p99Time'
+        | 'maxTime'
+        | 'standardDeviation'
+    >,
+) {
+    return [
+        `min ${formatMs(timings.minTime)}`,
+        `median ${formatMs(timings.medianTime)}`,
+        `p90 ${formatMs(timings.p90Time)}`,
+        `p95 ${formatMs(timings.p95Time)}`,
+        `p99 ${formatMs(timings.p99Time)}`,
+        `max ${formatMs(timings.maxTime)}`,
+        `sd ${formatMs(timings.standardDeviation)}`,
+    ].join(', ');
+}
+
+/**
+ * Formats the number of iterations per second and the number of concurrent iterations
+ */
+export function formatThroughput({
+    throughput,
+    concurrency,
+}: {
+    throughput: number;
+    concurrency: number;
+}) {
+    return `${throughput.toFixed(1)} ops/s (concurrency: ${concurrency})`;
+}
+
+/**
+ * Formats a histogram as one line per bucket, with a bar proportional to the bucket's count
+ */
+export function formatHistogram(histogram: ReadonlyArray<HistogramBucket>): string[] {
+    const maxCount = Math.max(...histogram.map((bucket) => bucket.count));
+    const labels = histogram.map(
+        (bucket) => `${formatMs(bucket.lowerBound)} – ${formatMs(bucket.upperBound)}`,
+    );
+    const labelWidth = Math.max(...labels.map((label) => label.length));
+    return histogram.map((bucket, index) => {
+        const barLength = Math.round((bucket.count / maxCount) * HISTOGRAM_BAR_WIDTH);
+        const bar = '#'.repeat(barLength).padEnd(HISTOGRAM_BAR_WIDTH);
+        return `${labels[index].padStart(labelWidth)} | ${bar} ${bucket.count}`;
+    });
+}
+
+/**
+ * Formats the statistics of a latency window as a single line
+ */
+export function formatLatencyWindow({ start, end, timings }: LatencyWindow) {
+    return (
+        `${start.toFixed()}s – ${end.toFixed()}s: ${timings.sampleCount} samples, ` +
+        `mean ${formatMs(timings.meanTime)}, median ${formatMs(timings.medianTime)}, ` +
+        `p95 ${formatMs(timings.p95Time)}, p99 ${formatMs(timings.p99Time)}, max ${formatMs(
+            timings.maxTime,
+        )}`
+    );
+}
+
+/**
+ * Formats whether a query plan makes use of the view's primary sort and stored values
+ */
+export function formatPlanSummary(plan: QueryPlanSummary) {
+    const yesNo = (value: boolean) => (value ? 'yes' : 'no');
+    return [
+        `primary sort used: ${yesNo(plan.usesPrimarySort)}`,
+        `stored values used: ${yesNo(plan.usesStoredValues)}`,
+        `late materialization: ${yesNo(plan.usesLateMaterialization)}`,
+        `sort node: ${yesNo(plan.hasSortNode)}`,
+        `estimated cost ${plan.estimatedCost}`,
+    ].join(', ');
+}
+
+/**
+ * Formats the mean duration of each query phase, the scanned documents and the memory usage
+ */
+export function formatQueryProfile(profile: QueryProfileSummary) {
+    return [
+        ...Object.entries(profile.phases).map(
+            ([phase, duration]) => `${phase} ${formatMs(duration)}`,
+        ),
+        `scanned index ${profile.meanScannedIndex.toFixed(1)}`,
+        `scanned full ${profile.meanScannedFull.toFixed(1)}`,
+        `peak memory ${formatBytes(profile.maxPeakMemoryUsage)}`,
+    ].join(', ');
+}
+
+/**
+ * Formats the result of a consistency check of one view, with one line per problem
+ */
+export function formatConsistencyReport(report: ConsistencyReport): string[] {
+    const lines = [
+        `${report.viewCount} documents in the view, ${report.collectionCount} in the collection; ` +
+            `sampled lookups: ${report.missing.length} missing, ${report.phantoms.length} phantoms`,
+    ];
+    for (const { category, collectionCount, viewCount } of report.categoryMismatches) {
+        lines.push(`category ${category}: ${viewCount} documents instead of ${collectionCount}`);
+    }
+    for (const field1 of report.missing) {
+        lines.push(`missing: field1 == ${field1}`);
+    }
+    for (const field1 of report.phantoms) {
+        lines.push(`phantom (not in the collection): field1 == ${field1}`);
+    }
+    return lines;
+}
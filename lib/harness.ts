@@ -0,0 +1,234 @@
+import { Database } from 'arangojs';
+import { DocumentCollection } from 'arangojs/collections';
+import { isArangoError, isNetworkError } from 'arangojs/errors';
+import { View } from 'arangojs/views';
+import { time } from './async-bench.ts';
+import { ChurnWorkload } from './churn.ts';
+import { CliOptions, CommandName, UsageError } from './cli.ts';
+import { CollectionStore } from './collection-store.ts';
+import { ComparisonSuiteOptions } from './compare-runner.ts';
+import { DatasetProfile } from './datasets.ts';
+import { DEFAULT_MEASUREMENT_MODE, MeasurementMode } from './query-workloads.ts';
+import { Random } from './random.ts';
+import { writeCsvFile } from './result-export.ts';
+import { ViewMatrix, ViewVariant } from './view-config.ts';
+import { settleViews } from './view-settle.ts';
+import { captureViewTelemetry, TelemetrySampler } from './view-telemetry.ts';
+
+/**
+ * Too many requests, service unavailable and gateway timeout
+ */
+const TRANSIENT_STATUS_CODES = [429, 503, 504];
+
+export interface ViewInstance {
+    readonly variant: ViewVariant;
+    readonly view: View;
+    readonly type: 'arangosearch' | 'search-alias';
+}
+
+/**
+ * Separate streams so e.g. queries running in parallel to the churn don't change the documents
+ * that are inserted or removed
+ */
+export interface HarnessRandom {
+    /**
+     * Drives the generated documents. Derived from the command as well, so e.g. a churn with the
+     * seed of the setup does not insert the documents of the setup again.
+     */
+    readonly data: Random;
+
+    /**
+     * Drives the churn and which documents are removed or updated
+     */
+    readonly churn: Random;
+
+    /**
+     * Drives the query parameters and the sampled documents
+     */
+    readonly queries: Random;
+
+    /**
+     * Drives the order of the comparison cycles
+     */
+    readonly schedule: Random;
+}
+
+/**
+ * What the commands work on: the test collection, its views and the random streams
+ */
+export interface Harness {
+    readonly database: Database;
+    readonly collection: DocumentCollection;
+    readonly matrix: ViewMatrix;
+
+    /**
+     * All views of the config, e.g. to create them on setup
+     */
+    readonly allViews: ReadonlyArray<ViewInstance>;
+
+    /**
+     * The views selected to be benchmarked (all views if none were selected)
+     */
+    readonly views: ReadonlyArray<ViewInstance>;
+    readonly dataset: DatasetProfile;
+    readonly random: HarnessRandom;
+    readonly store: CollectionStore;
+}
+
+export interface HarnessOptions {
+    readonly command: CommandName;
+    readonly dataset: DatasetProfile;
+    readonly seed: number;
+
+    /**
+     * The names of the view variants to benchmark (all if not set)
+     */
+    readonly views?: ReadonlyArray<string>;
+}
+
+/**
+ * Creates the harness for the views of the matrix. The views don't need to exist yet.
+ *
+ * @throws UsageError if a selected view is not part of the matrix
+ */
+export function createHarness(
+    database: Database,
+    collection: DocumentCollection,
+    matrix: ViewMatrix,
+    { command, dataset, seed, views: selectedNames }: HarnessOptions,
+): Harness {
+    const allViews = matrix.variants.flatMap((variant) => {
+        const instances: ViewInstance[] = [
+            {
+                variant,
+                view: database.view(`${collection.name}_view_${variant.name}`),
+                type: 'arangosearch',
+            },
+        ];
+        if (matrix.searchAlias) {
+            instances.push({
+                variant,
+                view: database.view(`${collection.name}_alias_view_${variant.name}`),
+                type: 'search-alias',
+            });
+        }
+        return instances;
+    });
+    const views = !selectedNames
+        ? allViews
+        : selectedNames.flatMap((name) => {
+              const instances = allViews.filter((v) => v.variant.name === name);
+              if (!instances.length) {
+                  const available = matrix.variants.map((v) => v.name).join(', ');
+                  throw new UsageError(`Unknown view "${name}". Available views: ${available}`);
+              }
+              return instances;
+          });
+    const random: HarnessRandom = {
+        data: Random.forStream(seed, `data-${command}`),
+        churn: Random.forStream(seed, 'churn'),
+        queries: Random.forStream(seed, 'queries'),
+        schedule: Random.forStream(seed, 'schedule'),
+    };
+    const store = new CollectionStore(database, collection, dataset, random.data, random.churn);
+    return { database, collection, matrix, allViews, views, dataset, random, store };
+}
+
+/**
+ * The name of a view instance in benchmark names
+ */
+export function getInstanceName({ variant, view, type }: ViewInstance) {
+    const suffix = type === 'search-alias' ? ' search-alias' : '';
+    return `${variant.name}${suffix} (${variant.description ?? view.name})`;
+}
+
+/**
+ * Waits until the given views have caught up with the collection (unless disabled via CLI)
+ */
+export async function settle(
+    { database, collection }: Harness,
+    instances: ReadonlyArray<Pick<ViewInstance, 'view'>>,
+    { skipSettle, settleTimeout }: CliOptions,
+) {
+    if (skipSettle) {
+        return;
+    }
+    const viewNames = instances.map(({ view }) => view.name);
+    console.log(`Waiting for ${viewNames.join(', ')} to settle...`);
+    const startTime = time();
+    await settleViews(database, collection, viewNames, { timeout: settleTimeout });
+    console.log(`Settled after ${(time() - startTime).toFixed(1)}s.`);
+}
+
+/**
+ * Samples the telemetry of the given views while fn runs and writes it to a CSV file
+ */
+export async function withTelemetry<T>(
+    { database, collection }: Harness,
+    name: string,
+    instances: ReadonlyArray<ViewInstance>,
+    { telemetryInterval, resultsDirectory }: CliOptions,
+    fn: () => Promise<T>,
+): Promise<T> {
+    const viewNames = instances.map(({ view }) => view.name);
+    const sampler = new TelemetrySampler(
+        () => captureViewTelemetry(database, collection, viewNames),
+        telemetryInterval,
+    );
+    sampler.start();
+    try {
+        return await fn();
+    } finally {
+        const snapshots = await sampler.stop();
+        if (snapshots.length) {
+            const path = await writeCsvFile(`${name}-telemetry`, snapshots, resultsDirectory);
+            console.log(`View telemetry written to ${path}`);
+        }
+    }
+}
+
+/**
+ * The options of runComparisons() that are set via CLI
+ */
+export function getSuiteOptions(
+    { random }: Harness,
+    cliOptions: CliOptions,
+): ComparisonSuiteOptions {
+    return {
+        resultsDirectory: cliOptions.resultsDirectory,
+        baseline: cliOptions.baseline,
+        saveBaseline: cliOptions.saveBaseline,
+        rounds: cliOptions.rounds,
+        warmUpRounds: cliOptions.warmUpRounds,
+        scheduling: cliOptions.scheduling,
+        random: random.schedule,
+        retries: cliOptions.retries,
+        shouldRetry: isTransientError,
+    };
+}
+
+/**
+ * Returns true for errors that might not occur again, e.g. if the connection was lost or the server
+ * was temporarily unavailable
+ */
+function isTransientError(err: unknown) {
+    return (
+        isNetworkError(err) || (isArangoError(err) && TRANSIENT_STATUS_CODES.includes(err.code!))
+    );
+}
+
+/**
+ * Appends the measurement mode to the suite name unless it's the default, so result files and
+ * baselines of different modes are kept apart
+ */
+export function getSuiteName(name: string, measurement: MeasurementMode) {
+    return measurement === DEFAULT_MEASUREMENT_MODE ? name : `${name}-${measurement}`;
+}
+
+export function getChurnWorkload(options: CliOptions): ChurnWorkload {
+    return {
+        distribution: options.churnDistribution,
+        insertRatio: options.insertRatio,
+        targetSize: options.targetSize,
+    };
+}
@@ -0,0 +1,101 @@
+import { BenchmarkConfig, getTimings, time, Timings } from './async-bench.ts';
+
+export interface LatencyWindow {
+    /**
+     * The start of the window, in seconds since the recorder was started
+     */
+    readonly start: number;
+
+    /**
+     * The end of the window (exclusive), in seconds since the recorder was started
+     */
+    readonly end: number;
+
+    /**
+     * The statistics of the samples that completed within this window
+     */
+    readonly timings: Timings;
+}
+
+interface LatencyEntry {
+    readonly time: number;
+    readonly latency: number;
+}
+
+/**
+ * Records latencies together with the time they were measured, so they can be analyzed per time
+ * window (e.g. to see how latency changes while data is being written)
+ */
+export class LatencyRecorder {
+    private readonly entries: LatencyEntry[] = [];
+
+    /**
+     * The entries of the benchmark run in progress, added to the entries when the run finishes
+     */
+    private runEntries: LatencyEntry[] = [];
+
+    /**
+     * @param startTime the time() all windows are relative to. Pass the same value to multiple
+     *                  recorders to get aligned windows.
+     */
+    constructor(public readonly startTime = time()) {}
+
+    record(latency: number) {
+        this.entries.push(this.createEntry(latency));
+    }
+
+    /**
+     * Wraps an asynchronous benchmark config so that every iteration's result is recorded
+     *
+     * The results of a benchmark run are only kept once the run has finished: if an attempt fails
+     * and the run is retried, the results of the failed attempt are discarded.
+     */
+    wrap(config: BenchmarkConfig): BenchmarkConfig {
+        return {
+            ...config,
+            fn: async () => {
+                const latency = await config.fn();
+                this.runEntries.push(this.createEntry(latency));
+                return latency;
+            },
+            beforeAll: async () => {
+                this.runEntries = [];
+                await config.beforeAll?.();
+            },
+            captureSnapshot: async () => {
+                const snapshot = await config.captureSnapshot?.();
+                this.entries.push(...this.runEntries);
+                this.runEntries = [];
+                return snapshot;
+            },
+        };
+    }
+
+    private createEntry(latency: number): LatencyEntry {
+        return { time: time() - this.startTime, latency };
+    }
+
+    /**
+     * Groups the recorded latencies into windows of the given size. Windows without samples are
+     * omitted.
+     */
+    getWindows(windowSize: number): LatencyWindow[] {
+        const samplesByWindow = new Map<number, number[]>();
+        for (const entry of this.entries) {
+            const index = Math.floor(entry.time / windowSize);
+            const samples = samplesByWindow.get(index);
+            if (samples) {
+                samples.push(entry.latency);
+            } else {
+                samplesByWindow.set(index, [entry.latency]);
+            }
+        }
+        return Array.from(samplesByWindow.entries())
+            .sort(([lhs], [rhs]) => lhs - rhs)
+            .map(([index, samples]) => ({
+                start: index * windowSize,
+                end: (index + 1) * windowSize,
+                timings: getTimings(samples),
+            }));
+    }
+}
@@ -0,0 +1,171 @@
+import { AqlQuery } from 'arangojs/aql';
+import { View } from 'arangojs/views';
+import chalk from 'chalk';
+import { BenchmarkConfig, time } from './async-bench.ts';
+import { runChurn } from './churn.ts';
+import { CliOptions } from './cli.ts';
+import { runComparisons } from './compare-runner.ts';
+import { formatLatencyWindow, formatPlanSummary, formatQueryProfile } from './format.ts';
+import {
+    getChurnWorkload,
+    getInstanceName,
+    getSuiteName,
+    getSuiteOptions,
+    Harness,
+    settle,
+} from './harness.ts';
+import { LatencyRecorder } from './latency-windows.ts';
+import { explainQuery } from './query-plan.ts';
+import { QueryProfileAggregator, QueryProfileSummary } from './query-profile.ts';
+import { PerfQueryFn } from './query-workloads.ts';
+import { writeCsvFile } from './result-export.ts';
+import { captureViewTelemetry } from './view-telemetry.ts';
+
+/**
+ * Compares the query performance of the selected views at each parallelism level
+ *
+ * If a churn rate is set, the queries are measured while documents are inserted and removed in
+ * the background, and the latency is also reported per time window.
+ */
+export async function testQueryPerformance(
+    harness: Harness,
+    fn: PerfQueryFn,
+    cliOptions: CliOptions,
+    suiteName: string = fn.name,
+) {
+    const { database, collection, views, matrix, random } = harness;
+    const { duration, concurrency, churnRate, windowSize, measurement, resultsDirectory } =
+        cliOptions;
+    const parameters = { measurement };
+    const options: Partial<BenchmarkConfig> = {
+        maxTime: duration, // per candidate and round
+        initialCount: 10,
+        concurrency,
+    };
+    const configs: BenchmarkConfig[] = views.flatMap((instance) => {
+        const { view } = instance;
+        return matrix.parallelism.map((parallelism): BenchmarkConfig => {
+            const name = `${fn.name}, ${getInstanceName(instance)}, ${
+                parallelism === 1 ? 'no parallelism' : `parallelism = ${parallelism}`
+            }`;
+            let lastQuery: AqlQuery | undefined;
+            let profiles = new QueryProfileAggregator();
+            return {
+                name,
+                fn: () =>
+                    fn({
+                        database,
+                        collection,
+                        view,
+                        parallelism,
+                        random: random.queries,
+                        measurement,
+                        onQuery: (query) => (lastQuery = query),
+                        onProfile: cliOptions.profile
+                            ? (profile) => profiles.add(profile)
+                            : undefined,
+                    }),
+                beforeAll: async () => {
+                    // every snapshot covers the queries of one benchmark run, also if an earlier
+                    // attempt of the run failed and it was retried
+                    profiles = new QueryProfileAggregator();
+                    // in mixed mode, the views never settle, so we settle once before the churn
+                    // starts
+                    if (churnRate === undefined) {
+                        await settle(harness, [{ view }], cliOptions);
+                    }
+                },
+                captureSnapshot: () =>
+                    captureCandidateSnapshot(harness, name, view, lastQuery, profiles.getSummary()),
+                ...options,
+            };
+        });
+    });
+    if (churnRate === undefined) {
+        return await runComparisons(configs, {
+            name: getSuiteName(suiteName, measurement),
+            parameters,
+            ...getSuiteOptions(harness, cliOptions),
+        });
+    }
+
+    // mixed mode: measure the queries while documents are inserted and removed in the background
+    const churnSuiteName = getSuiteName(`${suiteName}-churn`, measurement);
+    await settle(harness, views, cliOptions);
+    // the windows start with the churn, not with the settling
+    const startTime = time();
+    const recorders = new Map(configs.map((c) => [c.name, new LatencyRecorder(startTime)]));
+    console.log(`Starting churn with ${churnRate} steps per second in the background`);
+    const abortController = new AbortController();
+    // don't let a failing churn crash the process while the benchmark is running
+    const churnError = runChurn(harness.store, {
+        ...getChurnWorkload(cliOptions),
+        random: random.churn,
+        rate: churnRate,
+        signal: abortController.signal,
+        quiet: true,
+    }).then(
+        () => undefined,
+        (err) => err,
+    );
+    let result;
+    try {
+        result = await runComparisons(
+            configs.map((config) => recorders.get(config.name)!.wrap(config)),
+            { name: churnSuiteName, parameters, ...getSuiteOptions(harness, cliOptions) },
+        );
+    } finally {
+        abortController.abort();
+    }
+    const err = await churnError;
+    if (err) {
+        throw err;
+    }
+
+    console.log(chalk.bold(`Latency per ${windowSize}s window while churning:`));
+    const rows = [];
+    for (const [name, recorder] of recorders) {
+        console.log(chalk.yellow(name));
+        for (const window of recorder.getWindows(windowSize)) {
+            console.log(`  ${formatLatencyWindow(window)}`);
+            rows.push({
+                name,
+                windowStart: window.start,
+                windowEnd: window.end,
+                sampleCount: window.timings.sampleCount,
+                meanTime: window.timings.meanTime,
+                medianTime: window.timings.medianTime,
+                p95Time: window.timings.p95Time,
+                p99Time: window.timings.p99Time,
+                maxTime: window.timings.maxTime,
+            });
+        }
+    }
+    const path = await writeCsvFile(`${churnSuiteName}-windows`, rows, resultsDirectory);
+    console.log(`Latency windows written to ${path}`);
+    console.log('');
+    return result;
+}
+
+/**
+ * Captures the telemetry of a candidate's view, the plan of its last query and the mean profile of
+ * its queries. The plan shows whether e.g. the primary sort and the stored values of the view are
+ * used, the profile where the time is spent.
+ */
+async function captureCandidateSnapshot(
+    { database, collection }: Harness,
+    name: string,
+    view: View,
+    query: AqlQuery | undefined,
+    profile: QueryProfileSummary | undefined,
+) {
+    const [telemetry] = await captureViewTelemetry(database, collection, [view.name]);
+    const plan = query && (await explainQuery(database, query));
+    if (plan) {
+        console.log(chalk.grey(`  Plan of ${name}: ${formatPlanSummary(plan)}`));
+    }
+    if (profile) {
+        console.log(chalk.grey(`  Profile of ${name}: ${formatQueryProfile(profile)}`));
+    }
+    return { ...telemetry, plan, profile };
+}
@@ -0,0 +1,64 @@
+import { Database } from 'arangojs';
+import { AqlQuery } from 'arangojs/aql';
+import { ExplainPlan } from 'arangojs/queries';
+
+/**
+ * What the optimizer made of a search query, in particular whether it uses the view's primary sort
+ * and stored values
+ */
+export interface QueryPlanSummary {
+    /**
+     * The optimizer rules that were applied
+     */
+    readonly rules: ReadonlyArray<string>;
+
+    /**
+     * The types of the execution nodes, from the first to the last one
+     */
+    readonly nodeTypes: ReadonlyArray<string>;
+
+    /**
+     * True if the plan still contains a SortNode, i.e. the results are sorted after the search
+     */
+    readonly hasSortNode: boolean;
+
+    /**
+     * True if the SORT was replaced by reading the view in its primary sort order
+     */
+    readonly usesPrimarySort: boolean;
+
+    /**
+     * True if values are read from the view's stored values instead of the documents
+     */
+    readonly usesStoredValues: boolean;
+
+    /**
+     * True if the documents are only fetched after sorting and limiting
+     */
+    readonly usesLateMaterialization: boolean;
+
+    readonly estimatedCost: number;
+}
+
+/**
+ * Explains the query and summarizes the resulting plan
+ */
+export async function explainQuery(database: Database, query: AqlQuery): Promise<QueryPlanSummary> {
+    const { plan } = await database.explain(query);
+    return summarizePlan(plan);
+}
+
+export function summarizePlan(plan: ExplainPlan): QueryPlanSummary {
+    const viewNodes = plan.nodes.filter((node) => node.type === 'EnumerateViewNode');
+    return {
+        rules: plan.rules,
+        nodeTypes: plan.nodes.map((node) => node.type),
+        hasSortNode: plan.nodes.some((node) => node.type === 'SortNode'),
+        usesPrimarySort: viewNodes.some((node) => node.primarySortBuckets !== undefined),
+        usesStoredValues: viewNodes.some(
+            (node) => node.noMaterialization === true || node.viewValuesVars?.length > 0,
+        ),
+        usesLateMaterialization: plan.nodes.some((node) => node.type === 'MaterializeNode'),
+        estimatedCost: plan.estimatedCost,
+    };
+}
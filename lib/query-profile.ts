@@ -0,0 +1,170 @@
+import { Cursor } from 'arangojs/cursors';
+
+/**
+ * The statistics of one execution node of a profiled query (requires profile: 2)
+ */
+export interface QueryNodeProfile {
+    readonly id: number;
+
+    /**
+     * The type of the node according to the plan, e.g. EnumerateViewNode
+     */
+    readonly type: string;
+    readonly calls: number;
+    readonly items: number;
+    readonly filtered: number;
+
+    /**
+     * The time spent in this node (including its dependencies), in seconds
+     */
+    readonly runtime: number;
+}
+
+/**
+ * The profile of one query execution
+ */
+export interface QueryProfile {
+    /**
+     * The duration of each phase in seconds, by the name the server reports (e.g. "parsing",
+     * "optimizing plan", "instantiating executors", "executing", "finalizing")
+     */
+    readonly phases: Readonly<Record<string, number>>;
+
+    /**
+     * The total time on the server, in seconds
+     */
+    readonly executionTime: number;
+    readonly scannedIndex: number;
+    readonly scannedFull: number;
+    readonly filtered: number;
+
+    /**
+     * The maximum memory usage of the query, in bytes
+     */
+    readonly peakMemoryUsage: number;
+    readonly nodes: ReadonlyArray<QueryNodeProfile>;
+}
+
+/**
+ * The average profile of a number of query executions
+ */
+export interface QueryProfileSummary {
+    readonly queryCount: number;
+
+    /**
+     * The mean duration of each phase, in seconds
+     */
+    readonly phases: Readonly<Record<string, number>>;
+    readonly meanExecutionTime: number;
+    readonly meanScannedIndex: number;
+    readonly meanScannedFull: number;
+    readonly meanFiltered: number;
+    readonly meanPeakMemoryUsage: number;
+    readonly maxPeakMemoryUsage: number;
+
+    /**
+     * The mean statistics per execution node. Nodes are identified by id and type, so this is only
+     * meaningful if the plan is the same for all executions.
+     */
+    readonly nodes: ReadonlyArray<QueryNodeProfile>;
+}
+
+/**
+ * Reads the profile of a query. The phases are only set if it was executed with profile: 1 or
+ * higher, the node stats only with profile: 2.
+ */
+export function getQueryProfile(cursor: Pick<Cursor<unknown>, 'extra'>): QueryProfile {
+    const { profile = {}, stats, plan } = cursor.extra;
+    const nodeTypes = new Map<number, string>(
+        (plan?.nodes ?? []).map((node: { id: number; type: string }) => [node.id, node.type]),
+    );
+    return {
+        phases: profile,
+        executionTime: stats?.executionTime ?? 0,
+        scannedIndex: stats?.scannedIndex ?? 0,
+        scannedFull: stats?.scannedFull ?? 0,
+        filtered: stats?.filtered ?? 0,
+        peakMemoryUsage: stats?.peakMemoryUsage ?? 0,
+        nodes: (stats?.nodes ?? []).map((node) => ({
+            id: node.id,
+            type: nodeTypes.get(node.id) ?? 'unknown',
+            calls: node.calls,
+            items: node.items,
+            filtered: node.filter,
+            runtime: node.runtime,
+        })),
+    };
+}
+
+/**
+ * Collects query profiles, e.g. of all iterations of a benchmark candidate, and averages them
+ *
+ * Only keeps running totals, so it can be fed with any number of profiles.
+ */
+export class QueryProfileAggregator {
+    private queryCount = 0;
+    private readonly phaseTotals = new Map<string, number>();
+    private executionTime = 0;
+    private scannedIndex = 0;
+    private scannedFull = 0;
+    private filtered = 0;
+    private peakMemoryUsage = 0;
+    private maxPeakMemoryUsage = 0;
+    private readonly nodeTotals = new Map<string, QueryNodeProfile & { count: number }>();
+
+    add(profile: QueryProfile) {
+        this.queryCount++;
+        for (const [name, duration] of Object.entries(profile.phases)) {
+            this.phaseTotals.set(name, (this.phaseTotals.get(name) ?? 0) + duration);
+        }
+        this.executionTime += profile.executionTime;
+        this.scannedIndex += profile.scannedIndex;
+        this.scannedFull += profile.scannedFull;
+        this.filtered += profile.filtered;
+        this.peakMemoryUsage += profile.peakMemoryUsage;
+        this.maxPeakMemoryUsage = Math.max(this.maxPeakMemoryUsage, profile.peakMemoryUsage);
+        for (const node of profile.nodes) {
+            const key = `${node.id} ${node.type}`;
+            const total = this.nodeTotals.get(key);
+            this.nodeTotals.set(key, {
+                id: node.id,
+                type: node.type,
+                count: (total?.count ?? 0) + 1,
+                calls: (total?.calls ?? 0) + node.calls,
+                items: (total?.items ?? 0) + node.items,
+                filtered: (total?.filtered ?? 0) + node.filtered,
+                runtime: (total?.runtime ?? 0) + node.runtime,
+            });
+        }
+    }
+
+    /**
+     * Returns undefined if no profile has been added
+     */
+    getSummary(): QueryProfileSummary | undefined {
+        const count = this.queryCount;
+        if (!count) {
+            return undefined;
+        }
+        return {
+            queryCount: count,
+            phases: Object.fromEntries(
+                Array.from(this.phaseTotals, ([name, total]) => [name, total / count]),
+            ),
+            meanExecutionTime: this.executionTime / count,
+            meanScannedIndex: this.scannedIndex / count,
+            meanScannedFull: this.scannedFull / count,
+            meanFiltered: this.filtered / count,
+            meanPeakMemoryUsage: this.peakMemoryUsage / count,
+            maxPeakMemoryUsage: this.maxPeakMemoryUsage,
+            nodes: Array.from(this.nodeTotals.values(), (total) => ({
+                id: total.id,
+                type: total.type,
+                calls: total.calls / total.count,
+                items: total.items / total.count,
+                filtered: total.filtered / total.count,
+                runtime: total.runtime / total.count,
+            })),
+        };
+    }
+}
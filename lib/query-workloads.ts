@@ -0,0 +1,482 @@
+import { aql, Database } from 'arangojs';
+import { AqlQuery } from 'arangojs/aql';
+import { DocumentCollection } from 'arangojs/collections';
+import { View } from 'arangojs/views';
+import { time } from './async-bench.ts';
+import { CATEGORY_COUNT, Document, GEO_ANALYZER } from './datasets.ts';
+import { getQueryProfile, QueryProfile } from './query-profile.ts';
+import { Random } from './random.ts';
+
+/**
+ * The number of documents returned by the scored (top-k) queries
+ */
+const TOP_K = 10;
+
+/**
+ * The number of documents returned by the projection query
+ */
+const PROJECTION_LIMIT = 1000;
+
+/**
+ * The radius, in meters, of the geo search
+ */
+const GEO_RADIUS = 10_000;
+
+/**
+ * What the duration of a query includes:
+ * - executing: the executing phase on the server (without parsing, optimizing etc.)
+ * - server: the total time on the server
+ * - round-trip: from sending the query until the first batch of results is received
+ * - fetch-all: from sending the query until all batches of results are received
+ */
+export const MEASUREMENT_MODES = ['executing', 'server', 'round-trip', 'fetch-all'] as const;
+
+export type MeasurementMode = (typeof MEASUREMENT_MODES)[number];
+
+export const DEFAULT_MEASUREMENT_MODE: MeasurementMode = 'executing';
+
+export interface PerfQueryOptions {
+    readonly database: Database;
+    readonly collection: DocumentCollection;
+    readonly view: View;
+    readonly parallelism: number;
+
+    /**
+     * Drives the choice of the query parameters
+     */
+    readonly random: Random;
+
+    /**
+     * What the returned duration includes (default: executing)
+     */
+    readonly measurement?: MeasurementMode;
+
+    /**
+     * Called with every search query before it is executed, e.g. to explain it later
+     */
+    readonly onQuery?: (query: AqlQuery) => void;
+
+    /**
+     * Called with the profile of every search query after it has been executed. Setting this
+     * profiles the queries with the statistics of each execution node, which adds overhead.
+     */
+    readonly onProfile?: (profile: QueryProfile) => void;
+}
+
+/**
+ * Runs one query and returns its duration according to the measurement mode, in seconds
+ */
+export type PerfQueryFn = (options: PerfQueryOptions) => Promise<number>;
+
+interface SearchResult<T> {
+    readonly items: T[];
+
+    /**
+     * The duration of the query in seconds, according to the measurement mode
+     */
+    readonly duration: number;
+}
+
+export interface QueryWorkload {
+    readonly name: string;
+    readonly description: string;
+
+    /**
+     * The dataset profiles this workload works with (all profiles if not set)
+     */
+    readonly datasets?: ReadonlyArray<string>;
+
+    readonly fn: PerfQueryFn;
+}
+
+export const QUERY_WORKLOADS: ReadonlyArray<QueryWorkload> = [
+    {
+        name: 'count',
+        description: 'count the documents of one category',
+        fn: perfQueryCount,
+    },
+    {
+        name: 'find',
+        description: 'look up one document by an exact match on field1',
+        fn: perfQueryFind,
+    },
+    {
+        name: 'prefix',
+        description: 'count the documents whose field1 STARTS_WITH a 3-character prefix',
+        fn: perfQueryPrefix,
+    },
+    {
+        name: 'fuzzy',
+        description: 'LEVENSHTEIN_MATCH on field1 with one character changed',
+        fn: perfQueryFuzzy,
+    },
+    {
+        name: 'boolean',
+        description: 'count with a combination of AND, OR and NOT',
+        fn: perfQueryBoolean,
+    },
+    {
+        name: 'sorted',
+        description: `the ${TOP_K} documents of a category with the lowest gauge (SORT + LIMIT)`,
+        fn: perfQuerySorted,
+    },
+    {
+        name: 'projection',
+        description: `category and gauge of ${PROJECTION_LIMIT} documents of a category`,
+        fn: perfQueryProjection,
+    },
+    {
+        name: 'phrase',
+        description: 'PHRASE search for three consecutive words of a body',
+        datasets: ['text'],
+        fn: perfQueryPhrase,
+    },
+    {
+        name: 'bm25',
+        description: `the top ${TOP_K} bodies for the words of a title, sorted by BM25`,
+        datasets: ['text'],
+        fn: perfQueryBm25,
+    },
+    {
+        name: 'tfidf',
+        description: `the top ${TOP_K} bodies for the words of a title, sorted by TFIDF`,
+        datasets: ['text'],
+        fn: perfQueryTfidf,
+    },
+    {
+        name: 'range',
+        description: 'count the documents with a price IN_RANGE of 1% of all prices',
+        datasets: ['numeric'],
+        fn: perfQueryRange,
+    },
+    {
+        name: 'geo',
+        description: `count the documents within ${GEO_RADIUS / 1000} km (GEO_DISTANCE)`,
+        datasets: ['geo'],
+        fn: perfQueryGeo,
+    },
+];
+
+export function getQueryWorkload(name: string): QueryWorkload | undefined {
+    return QUERY_WORKLOADS.find((workload) => workload.name === name);
+}
+
+export function isWorkloadAvailable(workload: QueryWorkload, dataset: string) {
+    return !workload.datasets || workload.datasets.includes(dataset);
+}
+
+async function perfQueryCount(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const { duration } = await runSearchQuery(
+        options,
+        aql`for a in ${view} search a.category == 0 options { parallelism: ${parallelism} } collect with count into c return c`,
+    );
+    return duration;
+}
+
+async function perfQueryFind(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const { field1: targetField1 } = await getRandomDocument(options);
+    const { items: foundItems, duration } = await runSearchQuery<string>(
+        options,
+        aql`for a in ${view} search a.field1 == ${targetField1} options { parallelism: ${parallelism} } return a.field1`,
+    );
+    if (!foundItems.length) {
+        throw new Error(`arangosearch failed to find doc with field1 == ${targetField1}`);
+    }
+    if (foundItems[0] !== targetField1) {
+        throw new Error(
+            `arangosearch found doc with field1 == ${foundItems[0]} but should have been field1 = ${targetField1}`,
+        );
+    }
+    return duration;
+}
+
+async function perfQueryPrefix(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const doc = await getRandomDocument(options);
+    const prefix = doc.field1.slice(0, 3);
+    const { items, duration } = await runSearchQuery<number>(
+        options,
+        aql`
+            FOR a IN ${view} SEARCH STARTS_WITH(a.field1, ${prefix})
+            OPTIONS { parallelism: ${parallelism} }
+            COLLECT WITH COUNT INTO c RETURN c
+        `,
+    );
+    expectMatches(items, doc, `field1 starting with ${prefix}`);
+    return duration;
+}
+
+async function perfQueryFuzzy(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const doc = await getRandomDocument(options);
+    const position = options.random.integer(0, doc.field1.length - 1);
+    // '-' never occurs in generated tokens, so this is always exactly one edit away
+    const target = doc.field1.slice(0, position) + '-' + doc.field1.slice(position + 1);
+    const { items: foundItems, duration } = await runSearchQuery<string>(
+        options,
+        aql`
+            FOR a IN ${view} SEARCH LEVENSHTEIN_MATCH(a.field1, ${target}, 1)
+            OPTIONS { parallelism: ${parallelism} }
+            RETURN a.field1
+        `,
+    );
+    if (!foundItems.includes(doc.field1)) {
+        throw new Error(
+            `arangosearch failed to find doc with field1 == ${doc.field1} via ${target}`,
+        );
+    }
+    return duration;
+}
+
+async function perfQueryBoolean(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const doc = await getRandomDocument(options);
+    const otherCategory =
+        (doc.category + options.random.integer(1, CATEGORY_COUNT - 1)) % CATEGORY_COUNT;
+    // the excluded prefix never matches doc because its first character differs
+    const excludedPrefix = doc.field1[0] === 'A' ? 'B' : 'A';
+    const { items, duration } = await runSearchQuery<number>(
+        options,
+        aql`
+            FOR a IN ${view}
+            SEARCH (a.category == ${doc.category} OR a.category == ${otherCategory})
+                AND NOT STARTS_WITH(a.field1, ${excludedPrefix})
+            OPTIONS { parallelism: ${parallelism} }
+            COLLECT WITH COUNT INTO c RETURN c
+        `,
+    );
+    expectMatches(items, doc, 'the boolean combination');
+    return duration;
+}
+
+async function perfQuerySorted(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const category = options.random.integer(0, CATEGORY_COUNT - 1);
+    // benefits from a primarySort on gauge (no sorting needed) and storedValues (no documents read)
+    const { items: gauges, duration } = await runSearchQuery<number>(
+        options,
+        aql`
+            FOR a IN ${view} SEARCH a.category == ${category}
+            OPTIONS { parallelism: ${parallelism} }
+            SORT a.gauge ASC
+            LIMIT ${TOP_K}
+            RETURN a.gauge
+        `,
+    );
+    if (!gauges.length) {
+        throw new Error(`arangosearch failed to find any doc with category == ${category}`);
+    }
+    if (gauges.some((gauge, i) => i > 0 && gauge < gauges[i - 1])) {
+        throw new Error(`arangosearch returned gauges out of order: ${gauges.join(', ')}`);
+    }
+    return duration;
+}
+
+async function perfQueryProjection(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const category = options.random.integer(0, CATEGORY_COUNT - 1);
+    // benefits from storedValues on category and gauge (no documents read)
+    const { items: foundItems, duration } = await runSearchQuery<{ category: number }>(
+        options,
+        aql`
+            FOR a IN ${view} SEARCH a.category == ${category}
+            OPTIONS { parallelism: ${parallelism} }
+            LIMIT ${PROJECTION_LIMIT}
+            RETURN { category: a.category, gauge: a.gauge }
+        `,
+    );
+    const wrongItem = foundItems.find((item) => item.category !== category);
+    if (wrongItem) {
+        throw new Error(
+            `arangosearch found doc with category == ${wrongItem.category} but should have been ${category}`,
+        );
+    }
+    return duration;
+}
+
+async function perfQueryPhrase(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const doc = await getRandomDocument(options);
+    const words = String(doc.body).split(' ');
+    const start = options.random.integer(0, words.length - 3);
+    const phrase = words.slice(start, start + 3).join(' ');
+    const { items, duration } = await runSearchQuery<number>(
+        options,
+        aql`
+            FOR a IN ${view} SEARCH PHRASE(a.body, ${phrase}, 'text_en')
+            OPTIONS { parallelism: ${parallelism} }
+            COLLECT WITH COUNT INTO c RETURN c
+        `,
+    );
+    expectMatches(items, doc, `phrase "${phrase}"`);
+    return duration;
+}
+
+async function perfQueryBm25(options: PerfQueryOptions) {
+    return getScoredTopK(options, 'BM25');
+}
+
+async function perfQueryTfidf(options: PerfQueryOptions) {
+    return getScoredTopK(options, 'TFIDF');
+}
+
+async function getScoredTopK(options: PerfQueryOptions, scorer: 'BM25' | 'TFIDF') {
+    const { view, parallelism } = options;
+    const doc = await getRandomDocument(options);
+    const scoreExpression = scorer === 'BM25' ? aql`BM25(a)` : aql`TFIDF(a)`;
+    const { items: foundItems, duration } = await runSearchQuery<string>(
+        options,
+        aql`
+            FOR a IN ${view}
+            SEARCH ANALYZER(a.body IN TOKENS(${String(doc.title)}, 'text_en'), 'text_en')
+            OPTIONS { parallelism: ${parallelism} }
+            SORT ${scoreExpression} DESC
+            LIMIT ${TOP_K}
+            RETURN a._key
+        `,
+    );
+    if (!foundItems.length) {
+        throw new Error(`arangosearch failed to find any doc for "${String(doc.title)}"`);
+    }
+    return duration;
+}
+
+async function perfQueryRange(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const doc = await getRandomDocument(options);
+    // prices are between 0 and 10000
+    const price = Number(doc.price);
+    const low = price - options.random.next() * 100;
+    const { items, duration } = await runSearchQuery<number>(
+        options,
+        aql`
+            FOR a IN ${view} SEARCH IN_RANGE(a.price, ${low}, ${low + 100}, true, true)
+            OPTIONS { parallelism: ${parallelism} }
+            COLLECT WITH COUNT INTO c RETURN c
+        `,
+    );
+    expectMatches(items, doc, `price between ${low} and ${low + 100}`);
+    return duration;
+}
+
+async function perfQueryGeo(options: PerfQueryOptions) {
+    const { view, parallelism } = options;
+    const doc = await getRandomDocument(options);
+    const center = doc.location as object;
+    const { items, duration } = await runSearchQuery<number>(
+        options,
+        aql`
+            FOR a IN ${view}
+            SEARCH ANALYZER(GEO_DISTANCE(a.location, ${center}) < ${GEO_RADIUS}, ${GEO_ANALYZER})
+            OPTIONS { parallelism: ${parallelism} }
+            COLLECT WITH COUNT INTO c RETURN c
+        `,
+    );
+    expectMatches(items, doc, `location within ${GEO_RADIUS} m`);
+    return duration;
+}
+
+/**
+ * Creates a query for the analyzer comparison: count the documents that share at least one token
+ * of the given analyzer with the field of a random document
+ */
+export function createAnalyzerMatchQuery(field: string, analyzer: string): PerfQueryFn {
+    return async function perfQueryAnalyzerMatch(options: PerfQueryOptions) {
+        const { view, parallelism } = options;
+        const doc = await getRandomDocument(options);
+        const value = doc[field];
+        if (typeof value !== 'string') {
+            throw new Error(`Field ${field} of doc ${doc._key} is not a string`);
+        }
+        const { items, duration } = await runSearchQuery<number>(
+            options,
+            aql`
+                FOR a IN ${view}
+                SEARCH ANALYZER(a.${field} IN TOKENS(${value}, ${analyzer}), ${analyzer})
+                OPTIONS { parallelism: ${parallelism} }
+                COLLECT WITH COUNT INTO c RETURN c
+            `,
+        );
+        expectMatches(items, doc, `${field} analyzed with ${analyzer}`);
+        return duration;
+    };
+}
+
+/**
+ * Picks a random document from the collection (not the view), to derive query parameters from
+ */
+async function getRandomDocument({
+    database,
+    collection,
+    random,
+}: PerfQueryOptions): Promise<Document> {
+    const targetGauge = random.next() * 0.9; // don't go up to 1 because we might not find any then
+    const result = await database.query(aql`
+        FOR doc IN ${collection} FILTER doc.gauge > ${targetGauge} SORT doc.gauge ASC LIMIT 0, 1 RETURN doc
+    `);
+    const docs = await result.all();
+    if (!docs.length) {
+        throw new Error(`Did not find doc with gauge ${targetGauge}`);
+    }
+    return docs[0];
+}
+
+/**
+ * Runs a query on a view and fetches all results. The duration is measured as selected by
+ * options.measurement. The query is profiled with the stats of every execution node if
+ * options.onProfile is set, with the phase timings only if the measurement needs them, and not at
+ * all otherwise.
+ */
+async function runSearchQuery<T>(
+    options: PerfQueryOptions,
+    query: AqlQuery,
+): Promise<SearchResult<T>> {
+    options.onQuery?.(query);
+    const measurement = options.measurement ?? DEFAULT_MEASUREMENT_MODE;
+    const startTime = time();
+    const cursor = await options.database.query<T>(query, {
+        profile: getProfileLevel(measurement, !!options.onProfile),
+    });
+    const roundTripTime = time() - startTime;
+    const items = await cursor.all();
+    const fetchTime = time() - startTime;
+    const profile = getQueryProfile(cursor);
+    options.onProfile?.(profile);
+    switch (measurement) {
+        case 'executing':
+            if (profile.phases.executing === undefined) {
+                throw new Error(
+                    'The query profile has no executing phase, use another --measure mode',
+                );
+            }
+            return { items, duration: profile.phases.executing };
+        case 'server':
+            return { items, duration: profile.executionTime };
+        case 'round-trip':
+            return { items, duration: roundTripTime };
+        case 'fetch-all':
+            return { items, duration: fetchTime };
+    }
+}
+
+/**
+ * Profiles only as much as needed: level 2 for the statistics of each node, level 1 for the phase
+ * timings (and the server time that comes with them), none for times measured on the client
+ */
+function getProfileLevel(measurement: MeasurementMode, needsNodes: boolean) {
+    if (needsNodes) {
+        return 2;
+    }
+    return measurement === 'executing' || measurement === 'server' ? 1 : undefined;
+}
+
+/**
+ * Checks that a count query found at least the document its parameters were derived from
+ */
+function expectMatches(items: ReadonlyArray<number>, doc: Document, description: string) {
+    if (!items[0]) {
+        throw new Error(`arangosearch failed to find doc ${doc._key} by ${description}`);
+    }
+}
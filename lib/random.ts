@@ -0,0 +1,66 @@
+const TOKEN_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * A seedable pseudo-random number generator (mulberry32)
+ *
+ * Use this instead of Math.random() wherever a run should be reproducible.
+ */
+export class Random {
+    private state: number;
+
+    constructor(public readonly seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Creates a generator for an independent stream of numbers
+     *
+     * Consumers that run interleaved in a non-deterministic order (e.g. background churn and
+     * queries) should use separate streams so they don't influence each other's numbers.
+     */
+    static forStream(seed: number, stream: string) {
+        // FNV-1a hash of the stream name
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < stream.length; i++) {
+            hash ^= stream.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return new Random((seed ^ hash) >>> 0);
+    }
+
+    /**
+     * Returns a number between 0 (inclusive) and 1 (exclusive), like Math.random()
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Returns an integer between min and max (both inclusive)
+     */
+    integer(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    /**
+     * Returns a random alphanumeric string, like RANDOM_TOKEN() in AQL
+     */
+    token(length: number): string {
+        let result = '';
+        for (let i = 0; i < length; i++) {
+            result += TOKEN_CHARACTERS[Math.floor(this.next() * TOKEN_CHARACTERS.length)];
+        }
+        return result;
+    }
+}
+
+/**
+ * Creates a seed for a run that has not been given one
+ */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 2 ** 32);
+}
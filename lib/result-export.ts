@@ -0,0 +1,295 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { BenchmarkCycleDetails, BenchmarkResult, HistogramBucket } from './async-bench.ts';
+import { CandidateError, CandidateResult, FailedCandidate, ScheduledCycle } from './compare.ts';
+import { EffectSize, SampleComparison } from './stats.ts';
+
+export const DEFAULT_RESULTS_DIRECTORY = 'results';
+
+/**
+ * One benchmark (or comparison candidate) in a result file. All times are in seconds.
+ */
+export interface ResultRecord {
+    readonly name: string;
+    readonly error?: string;
+
+    /**
+     * All errors of a comparison candidate, including the ones of retried runs
+     */
+    readonly errors?: ReadonlyArray<CandidateError>;
+    readonly errorCount?: number;
+    readonly isFastest?: boolean;
+    readonly overheadMin?: number;
+    readonly relativeOverheadMin?: number;
+    readonly overheadMax?: number;
+    readonly relativeOverheadMax?: number;
+
+    /**
+     * The comparison with the fastest candidate, including the intervals of the means
+     */
+    readonly statistics?: SampleComparison;
+    readonly medianDifference?: number;
+    readonly medianDifferenceLower?: number;
+    readonly medianDifferenceUpper?: number;
+    readonly medianRatio?: number;
+    readonly medianRatioLower?: number;
+    readonly medianRatioUpper?: number;
+    readonly cliffsDelta?: number;
+    readonly effectSize?: EffectSize;
+    readonly pValue?: number;
+    readonly baselineVerdict?: 'regression' | 'improvement' | 'unchanged';
+    readonly baselineMeanTime?: number;
+    readonly baselineOverheadMin?: number;
+    readonly baselineOverheadMax?: number;
+
+    /**
+     * The comparison with the same candidate in the baseline
+     */
+    readonly baselineStatistics?: SampleComparison;
+    readonly baselineMedianRatio?: number;
+    readonly baselineMedianRatioLower?: number;
+    readonly baselineMedianRatioUpper?: number;
+    readonly baselineCliffsDelta?: number;
+    readonly baselinePValue?: number;
+    readonly meanTime?: number;
+    readonly relativeMarginOfError?: number;
+    readonly minTime?: number;
+    readonly medianTime?: number;
+    readonly p90Time?: number;
+    readonly p95Time?: number;
+    readonly p99Time?: number;
+    readonly maxTime?: number;
+    readonly standardDeviation?: number;
+    readonly histogram?: ReadonlyArray<HistogramBucket>;
+    readonly throughput?: number;
+    readonly concurrency?: number;
+    readonly sampleCount?: number;
+    readonly iterationCount?: number;
+    readonly cycles?: number;
+    readonly elapsedTime?: number;
+    readonly setUpTime?: number;
+    readonly samples?: ReadonlyArray<number>;
+    readonly cycleDetails?: ReadonlyArray<BenchmarkCycleDetails>;
+    readonly snapshots?: ReadonlyArray<unknown>;
+}
+
+export interface ResultFile {
+    readonly kind: 'comparison' | 'benchmark';
+    readonly name: string;
+
+    /**
+     * Settings that apply to all results, e.g. the measurement mode
+     */
+    readonly parameters?: Readonly<Record<string, unknown>>;
+    readonly startTime: string;
+    readonly endTime: string;
+    readonly results: ReadonlyArray<ResultRecord>;
+
+    /**
+     * The order in which the cycles of the candidates were executed (only for comparisons)
+     */
+    readonly schedule?: ReadonlyArray<ScheduledCycle>;
+}
+
+/**
+ * The columns of the CSV summary. Samples, the histogram, cycle details, snapshots and the
+ * intervals of the means are only included in the JSON file.
+ */
+const CSV_COLUMNS: ReadonlyArray<keyof ResultRecord> = [
+    'name',
+    'error',
+    'errorCount',
+    'isFastest',
+    'meanTime',
+    'relativeMarginOfError',
+    'minTime',
+    'medianTime',
+    'p90Time',
+    'p95Time',
+    'p99Time',
+    'maxTime',
+    'standardDeviation',
+    'throughput',
+    'concurrency',
+    'overheadMin',
+    'overheadMax',
+    'relativeOverheadMin',
+    'relativeOverheadMax',
+    'medianDifference',
+    'medianDifferenceLower',
+    'medianDifferenceUpper',
+    'medianRatio',
+    'medianRatioLower',
+    'medianRatioUpper',
+    'cliffsDelta',
+    'effectSize',
+    'pValue',
+    'baselineVerdict',
+    'baselineMeanTime',
+    'baselineOverheadMin',
+    'baselineOverheadMax',
+    'baselineMedianRatio',
+    'baselineMedianRatioLower',
+    'baselineMedianRatioUpper',
+    'baselineCliffsDelta',
+    'baselinePValue',
+    'sampleCount',
+    'iterationCount',
+    'cycles',
+    'elapsedTime',
+    'setUpTime',
+];
+
+export function benchmarkResultToRecord(name: string, result: BenchmarkResult): ResultRecord {
+    return {
+        name,
+        meanTime: result.meanTime,
+        relativeMarginOfError: result.relativeMarginOfError,
+        minTime: result.minTime,
+        medianTime: result.medianTime,
+        p90Time: result.p90Time,
+        p95Time: result.p95Time,
+        p99Time: result.p99Time,
+        maxTime: result.maxTime,
+        standardDeviation: result.standardDeviation,
+        histogram: result.histogram,
+        throughput: result.throughput,
+        concurrency: result.concurrency,
+        sampleCount: result.samples.length,
+        iterationCount: result.iterationCount,
+        cycles: result.cycles,
+        elapsedTime: result.elapsedTime,
+        setUpTime: result.setUpTime,
+        samples: result.samples,
+        cycleDetails: result.cycleDetails,
+        snapshots: result.snapshots,
+    };
+}
+
+export function candidateResultToRecord(candidate: CandidateResult): ResultRecord {
+    const statistics = candidate.statistics;
+    const baselineStatistics = candidate.baseline?.statistics;
+    return {
+        ...benchmarkResultToRecord(candidate.config.name, candidate.benchmark),
+        isFastest: candidate.isFastest,
+        overheadMin: candidate.overheadMin,
+        relativeOverheadMin: candidate.relativeOverheadMin,
+        overheadMax: candidate.overheadMax,
+        relativeOverheadMax: candidate.relativeOverheadMax,
+        statistics,
+        medianDifference: statistics?.medianDifference.estimate,
+        medianDifferenceLower: statistics?.medianDifference.lower,
+        medianDifferenceUpper: statistics?.medianDifference.upper,
+        medianRatio: statistics?.medianRatio.estimate,
+        medianRatioLower: statistics?.medianRatio.lower,
+        medianRatioUpper: statistics?.medianRatio.upper,
+        cliffsDelta: statistics?.cliffsDelta,
+        effectSize: statistics?.effectSize,
+        pValue: statistics?.pValue,
+        baselineVerdict: candidate.baseline?.verdict,
+        baselineMeanTime: candidate.baseline?.baselineMeanTime,
+        baselineOverheadMin: candidate.baseline?.overheadMin,
+        baselineOverheadMax: candidate.baseline?.overheadMax,
+        baselineStatistics,
+        baselineMedianRatio: baselineStatistics?.medianRatio.estimate,
+        baselineMedianRatioLower: baselineStatistics?.medianRatio.lower,
+        baselineMedianRatioUpper: baselineStatistics?.medianRatio.upper,
+        baselineCliffsDelta: baselineStatistics?.cliffsDelta,
+        baselinePValue: baselineStatistics?.pValue,
+        errors: candidate.retriedErrors,
+        errorCount: candidate.retriedErrors?.length,
+    };
+}
+
+export function failedCandidateToRecord({ config, errors }: FailedCandidate): ResultRecord {
+    return {
+        name: config.name,
+        error: errors[errors.length - 1].message,
+        errors,
+        errorCount: errors.length,
+    };
+}
+
+/**
+ * Writes the result as a JSON file (with all samples) and as a CSV summary into the given directory
+ *
+ * @returns the paths of the written files
+ */
+export async function writeResultFile(
+    file: ResultFile,
+    directory = DEFAULT_RESULTS_DIRECTORY,
+): Promise<string[]> {
+    await mkdir(directory, { recursive: true });
+    const baseName = `${file.startTime.replace(/[:.]/g, '-')}-${toFileName(file.name)}`;
+    const jsonPath = join(directory, baseName + '.json');
+    const csvPath = join(directory, baseName + '.csv');
+    await writeFile(jsonPath, JSON.stringify(file, undefined, 2) + '\n');
+    await writeFile(csvPath, toCsv(file.results, CSV_COLUMNS));
+    return [jsonPath, csvPath];
+}
+
+/**
+ * Writes rows of flat values (e.g. a time series) as a CSV file into the given directory, using the
+ * keys of the first row as columns
+ *
+ * @returns the path of the written file
+ */
+export async function writeCsvFile<T extends object>(
+    name: string,
+    rows: ReadonlyArray<T>,
+    directory = DEFAULT_RESULTS_DIRECTORY,
+): Promise<string> {
+    await mkdir(directory, { recursive: true });
+    const path = join(
+        directory,
+        `${new Date().toISOString().replace(/[:.]/g, '-')}-${toFileName(name)}.csv`,
+    );
+    const columns = rows.length ? (Object.keys(rows[0]) as Array<keyof T>) : [];
+    await writeFile(path, toCsv(rows, columns));
+    return path;
+}
+
+/**
+ * Writes a value as a JSON file into the given directory
+ *
+ * @returns the path of the written file
+ */
+export async function writeJsonFile(
+    name: string,
+    value: unknown,
+    directory = DEFAULT_RESULTS_DIRECTORY,
+): Promise<string> {
+    await mkdir(directory, { recursive: true });
+    const path = join(
+        directory,
+        `${new Date().toISOString().replace(/[:.]/g, '-')}-${toFileName(name)}.json`,
+    );
+    await writeFile(path, JSON.stringify(value, undefined, 2) + '\n');
+    return path;
+}
+
+function toCsv<T extends object>(rows: ReadonlyArray<T>, columns: ReadonlyArray<keyof T>) {
+    const lines = [
+        columns.join(','),
+        ...rows.map((row) => columns.map((column) => toCsvValue(row[column])).join(',')),
+    ];
+    return lines.join('\n') + '\n';
+}
+
+function toCsvValue(value: unknown) {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    const str = String(value);
+    if (/[",\n]/.test(str)) {
+        return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+}
+
+/**
+ * Replaces the characters of a name that are not safe in file names
+ */
+export function toFileName(name: string) {
+    return name.replace(/[^a-zA-Z0-9_-]+/g, '_');
+}
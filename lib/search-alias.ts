@@ -0,0 +1,129 @@
+import { EnsureInvertedIndexOptions, InvertedIndexStoredValueOptions } from 'arangojs/indexes';
+import { ArangoSearchViewLinkOptions, TierConsolidationPolicy } from 'arangojs/views';
+import { DatasetProfile, getDatasetLink } from './datasets.ts';
+import { ConfigError, ViewMatrix, ViewVariantProperties } from './view-config.ts';
+
+type ViewLink = Omit<ArangoSearchViewLinkOptions, 'nested'>;
+
+interface IndexedField {
+    readonly name: string;
+    readonly analyzers: ReadonlyArray<string>;
+}
+
+/**
+ * Converts the properties and the link of an arangosearch view variant into an inverted index that
+ * indexes the same fields with the same analyzers and consolidation settings, so a search-alias
+ * view on top of it can be compared with the arangosearch view
+ *
+ * An inverted index supports only one analyzer per field, and a search-alias view can't combine
+ * several inverted indexes of a collection that index the same field. parseViewMatrix() and
+ * checkSearchAliasDataset() make sure that no field of the link has more than one analyzer.
+ */
+export function toInvertedIndex(
+    name: string,
+    properties: ViewVariantProperties,
+    link: ViewLink,
+): EnsureInvertedIndexOptions & { name: string } {
+    const fields = flattenFields(link.fields ?? {}, '', link.analyzers ?? ['identity']);
+    const multiAnalyzerField = fields.find((f) => f.analyzers.length > 1);
+    if (multiAnalyzerField) {
+        throw new Error(`Field "${multiAnalyzerField.name}" has more than one analyzer`);
+    }
+    return {
+        type: 'inverted',
+        name,
+        fields: fields.map((f) => ({ name: f.name, analyzer: f.analyzers[0] })),
+        // arangosearch links search in arrays without [*], make inverted indexes do the same
+        searchField: true,
+        includeAllFields: link.includeAllFields,
+        trackListPositions: link.trackListPositions,
+        ...getIndexProperties(properties),
+    };
+}
+
+/**
+ * Returns the (dot-separated) names of the fields of the link that are indexed with more than one
+ * analyzer. These can't be indexed by an inverted index.
+ */
+export function getMultiAnalyzerFieldNames(link: ViewLink): string[] {
+    return flattenFields(link.fields ?? {}, '', link.analyzers ?? ['identity'])
+        .filter((f) => f.analyzers.length > 1)
+        .map((f) => f.name);
+}
+
+/**
+ * Checks that the dataset link can be converted into an inverted index if search-alias views are
+ * enabled. Only needed for variants without their own links, parseViewMatrix() checks the others.
+ *
+ * @throws ConfigError if a field of the dataset is indexed with more than one analyzer
+ */
+export function checkSearchAliasDataset(
+    matrix: ViewMatrix,
+    dataset: DatasetProfile,
+    source = 'view config',
+) {
+    if (!matrix.searchAlias || matrix.variants.every((v) => v.links)) {
+        return;
+    }
+    const [field] = getMultiAnalyzerFieldNames(getDatasetLink(dataset));
+    if (field) {
+        throw new ConfigError(
+            `${source}: "searchAlias" can't be used with dataset "${dataset.name}" because its ` +
+                `field "${field}" has more than one analyzer, which inverted indexes don't support`,
+        );
+    }
+}
+
+function flattenFields(
+    fields: Record<string, ArangoSearchViewLinkOptions>,
+    prefix: string,
+    inheritedAnalyzers: ReadonlyArray<string>,
+): IndexedField[] {
+    return Object.entries(fields).flatMap(([name, options]) => {
+        const path = prefix + name;
+        const analyzers = options.analyzers ?? inheritedAnalyzers;
+        if (options.fields) {
+            return flattenFields(options.fields, `${path}.`, analyzers);
+        }
+        return [{ name: path, analyzers }];
+    });
+}
+
+/**
+ * Maps the view properties to the corresponding inverted index properties
+ */
+function getIndexProperties(
+    properties: ViewVariantProperties,
+): Partial<EnsureInvertedIndexOptions> {
+    // parseViewMatrix() makes sure there is no other policy if search-alias views are enabled
+    const consolidationPolicy = properties.consolidationPolicy as
+        | TierConsolidationPolicy
+        | undefined;
+    return {
+        commitIntervalMsec: properties.commitIntervalMsec,
+        consolidationIntervalMsec: properties.consolidationIntervalMsec,
+        cleanupIntervalStep: properties.cleanupIntervalStep,
+        consolidationPolicy,
+        writeBufferIdle: properties.writebufferIdle,
+        writeBufferActive: properties.writebufferActive,
+        writeBufferSizeMax: properties.writebufferSizeMax,
+        primaryKeyCache: properties.primaryKeyCache,
+        optimizeTopK: properties.optimizeTopK,
+        primarySort: properties.primarySort && {
+            fields: properties.primarySort.map((entry) => ({
+                field: entry.field,
+                direction: 'direction' in entry ? entry.direction : entry.asc ? 'asc' : 'desc',
+            })),
+            compression: properties.primarySortCompression,
+            cache: properties.primarySortCache,
+        },
+        storedValues: properties.storedValues?.map(
+            (entry): InvertedIndexStoredValueOptions =>
+                typeof entry === 'string'
+                    ? { fields: [entry] }
+                    : Array.isArray(entry)
+                    ? { fields: entry }
+                    : entry,
+        ),
+    };
+}
@@ -0,0 +1,121 @@
+import { ArangoSearchViewProperties, View } from 'arangojs/views';
+import { setTimeout } from 'node:timers/promises';
+import { getAnalyzerView } from './analyzer-comparison.ts';
+import { CliOptions } from './cli.ts';
+import { getDatasetLink } from './datasets.ts';
+import { Harness, settle, withTelemetry } from './harness.ts';
+import { toInvertedIndex } from './search-alias.ts';
+
+/**
+ * Recreates the collection, the analyzers and all views of the config, then inserts the initial
+ * documents
+ */
+export async function setUp(harness: Harness, options: CliOptions) {
+    const { database, collection, matrix, dataset, allViews } = harness;
+    if (await collection.exists()) {
+        await collection.drop();
+    }
+    await collection.create();
+    await collection.ensureIndex({ type: 'persistent', fields: ['gauge'] });
+
+    const analyzerViews =
+        matrix.analyzerComparison?.analyzers.map((analyzer) =>
+            getAnalyzerView(harness, analyzer),
+        ) ?? [];
+    for (const view of [...allViews.map((v) => v.view), ...analyzerViews]) {
+        if (await view.exists()) {
+            await view.drop();
+        }
+    }
+
+    // recreate the analyzers in case their config changed. This fails if views outside of the
+    // config still use them.
+    for (const [name, analyzerOptions] of Object.entries({
+        ...dataset.analyzers,
+        ...matrix.analyzers,
+    })) {
+        const analyzer = database.analyzer(name);
+        if (await analyzer.exists()) {
+            await analyzer.drop();
+        }
+        console.log(`Creating analyzer ${name}`);
+        await analyzer.create(analyzerOptions);
+    }
+
+    console.log(`Using dataset ${dataset.name}: ${dataset.description}`);
+    const datasetLink = getDatasetLink(dataset);
+    for (const { variant, view, type } of allViews) {
+        const { name, description, links, ...properties } = variant;
+        console.log(`Creating ${type} view ${view.name} (${description ?? name})`);
+        if (type === 'arangosearch') {
+            await view.create({
+                ...properties,
+                type: 'arangosearch',
+                links: {
+                    [collection.name]: links ?? datasetLink,
+                },
+            });
+            continue;
+        }
+        const index = toInvertedIndex(`inverted_${name}`, properties, links ?? datasetLink);
+        await collection.ensureIndex(index);
+        await view.create({
+            type: 'search-alias',
+            indexes: [{ collection: collection.name, index: index.name }],
+        });
+    }
+
+    await reInitData(harness, options);
+}
+
+/**
+ * Replaces the documents of the collection with documentCount new ones
+ */
+export async function reInitData(harness: Harness, options: CliOptions) {
+    await harness.collection.truncate();
+    await insertDocuments(harness, options.documentCount, 'reinit', options);
+    await settle(harness, harness.allViews, options);
+}
+
+/**
+ * Inserts documents in batches, with a short commit interval on the arangosearch views
+ */
+export async function insertDocuments(
+    harness: Harness,
+    documentCount: number,
+    name: string,
+    options: CliOptions,
+) {
+    const { batchSize } = options;
+    // reduce commit interval so the resulting layout of segments is closer to
+    // how it would be if the inserts were not done in bulk. Not possible for search-alias views
+    // because the properties of inverted indexes can't be changed after creation.
+    const arangoSearchViews = harness.allViews.filter((v) => v.type === 'arangosearch');
+    let oldProps = new Map<View, ArangoSearchViewProperties>();
+    for (const { view } of arangoSearchViews) {
+        const props = (await view.properties()) as ArangoSearchViewProperties;
+        oldProps.set(view, props);
+        await view.updateProperties({
+            commitIntervalMsec: 10,
+        });
+    }
+
+    try {
+        const batches = Math.ceil(documentCount / batchSize);
+        console.log(`Inserting ${documentCount} documents in ${batches} batches...`);
+        await withTelemetry(harness, name, harness.allViews, options, async () => {
+            for (let i = 0; i < batches; i++) {
+                await harness.store.insert(Math.min(batchSize, documentCount - i * batchSize));
+                await setTimeout(10);
+            }
+        });
+    } finally {
+        for (const { view } of arangoSearchViews) {
+            const props = oldProps.get(view);
+            await view.updateProperties({
+                commitIntervalMsec: props!.commitIntervalMsec,
+            });
+        }
+    }
+    console.log('Done.');
+}
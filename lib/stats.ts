@@ -0,0 +1,278 @@
+import { getPercentile } from './async-bench.ts';
+import { Random } from './random.ts';
+
+export const DEFAULT_RESAMPLES = 1000;
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+/**
+ * Seeds the resampling if no generator is given, so the same samples always yield the same
+ * intervals
+ */
+const DEFAULT_BOOTSTRAP_SEED = 1;
+
+/**
+ * Up to this total number of samples, the p-value of the U test is computed from the exact
+ * distribution. The counts of that distribution stay below 2^53 so they are exact in a double.
+ */
+const MAX_EXACT_SAMPLE_COUNT = 50;
+
+/**
+ * Thresholds of |Cliff's delta| for small, medium and large effects (Romano et al., 2006)
+ */
+const EFFECT_SIZE_THRESHOLDS = { small: 0.147, medium: 0.33, large: 0.474 };
+
+export type EffectSize = 'negligible' | 'small' | 'medium' | 'large';
+
+export interface ConfidenceInterval {
+    /**
+     * The value for the original samples
+     */
+    readonly estimate: number;
+    readonly lower: number;
+    readonly upper: number;
+}
+
+/**
+ * How the samples of a candidate differ from the ones of a reference
+ *
+ * Differences are candidate minus reference (in seconds), ratios are candidate divided by
+ * reference. A positive difference or a ratio above 1 means the candidate is slower.
+ */
+export interface SampleComparison {
+    /**
+     * The confidence level of the intervals, e.g. 0.95
+     */
+    readonly confidenceLevel: number;
+    readonly medianDifference: ConfidenceInterval;
+    readonly medianRatio: ConfidenceInterval;
+    readonly meanDifference: ConfidenceInterval;
+    readonly meanRatio: ConfidenceInterval;
+
+    /**
+     * The probability that a sample of the candidate is slower than one of the reference, minus
+     * the probability that it's faster (between -1 and 1)
+     */
+    readonly cliffsDelta: number;
+    readonly effectSize: EffectSize;
+
+    /**
+     * The two-sided p-value of the Mann-Whitney U test, i.e. how likely a difference at least this
+     * clear is if both come from the same distribution
+     */
+    readonly pValue: number;
+}
+
+export interface BootstrapOptions {
+    /**
+     * The number of bootstrap resamples (default: 1000)
+     */
+    readonly resamples?: number;
+
+    /**
+     * The confidence level of the intervals (default: 0.95)
+     */
+    readonly confidenceLevel?: number;
+
+    /**
+     * Drives the resampling (default: seeded with a fixed seed)
+     */
+    readonly random?: Random;
+}
+
+/**
+ * Compares the samples of a candidate with the ones of a reference, with percentile bootstrap
+ * confidence intervals for the difference and ratio of medians and means
+ */
+export function compareSamples(
+    samples: ReadonlyArray<number>,
+    referenceSamples: ReadonlyArray<number>,
+    {
+        resamples = DEFAULT_RESAMPLES,
+        confidenceLevel = DEFAULT_CONFIDENCE_LEVEL,
+        random = new Random(DEFAULT_BOOTSTRAP_SEED),
+    }: BootstrapOptions = {},
+): SampleComparison {
+    const sorted = Float64Array.from(samples).sort();
+    const sortedReference = Float64Array.from(referenceSamples).sort();
+    const median = getPercentile(sorted, 0.5);
+    const referenceMedian = getPercentile(sortedReference, 0.5);
+    const mean = getMean(sorted);
+    const referenceMean = getMean(sortedReference);
+
+    const medianDifferences = new Float64Array(resamples);
+    const medianRatios = new Float64Array(resamples);
+    const meanDifferences = new Float64Array(resamples);
+    const meanRatios = new Float64Array(resamples);
+    const resampled = new Float64Array(sorted.length);
+    const resampledReference = new Float64Array(sortedReference.length);
+    for (let i = 0; i < resamples; i++) {
+        resample(sorted, resampled, random);
+        resample(sortedReference, resampledReference, random);
+        const resampledMedian = getPercentile(resampled.sort(), 0.5);
+        const resampledReferenceMedian = getPercentile(resampledReference.sort(), 0.5);
+        const resampledMean = getMean(resampled);
+        const resampledReferenceMean = getMean(resampledReference);
+        medianDifferences[i] = resampledMedian - resampledReferenceMedian;
+        medianRatios[i] = resampledMedian / resampledReferenceMedian;
+        meanDifferences[i] = resampledMean - resampledReferenceMean;
+        meanRatios[i] = resampledMean / resampledReferenceMean;
+    }
+
+    const getInterval = (estimate: number, values: Float64Array): ConfidenceInterval => {
+        const sortedValues = values.sort();
+        return {
+            estimate,
+            lower: getPercentile(sortedValues, (1 - confidenceLevel) / 2),
+            upper: getPercentile(sortedValues, (1 + confidenceLevel) / 2),
+        };
+    };
+    const { cliffsDelta, pValue } = getRankStatistics(samples, referenceSamples);
+    return {
+        confidenceLevel,
+        medianDifference: getInterval(median - referenceMedian, medianDifferences),
+        medianRatio: getInterval(median / referenceMedian, medianRatios),
+        meanDifference: getInterval(mean - referenceMean, meanDifferences),
+        meanRatio: getInterval(mean / referenceMean, meanRatios),
+        cliffsDelta,
+        effectSize: getEffectSize(cliffsDelta),
+        pValue,
+    };
+}
+
+/**
+ * Classifies the magnitude of Cliff's delta
+ */
+export function getEffectSize(cliffsDelta: number): EffectSize {
+    const magnitude = Math.abs(cliffsDelta);
+    if (magnitude >= EFFECT_SIZE_THRESHOLDS.large) {
+        return 'large';
+    }
+    if (magnitude >= EFFECT_SIZE_THRESHOLDS.medium) {
+        return 'medium';
+    }
+    if (magnitude >= EFFECT_SIZE_THRESHOLDS.small) {
+        return 'small';
+    }
+    return 'negligible';
+}
+
+/**
+ * Computes Cliff's delta and the two-sided p-value of the Mann-Whitney U test from the ranks of
+ * the pooled samples
+ *
+ * The p-value is exact for small samples without ties. Otherwise, it uses the normal
+ * approximation with tie and continuity correction.
+ */
+export function getRankStatistics(
+    samples: ReadonlyArray<number>,
+    referenceSamples: ReadonlyArray<number>,
+): { cliffsDelta: number; pValue: number } {
+    const size1 = samples.length;
+    const size2 = referenceSamples.length;
+    if (!size1 || !size2) {
+        return { cliffsDelta: 0, pValue: 1 };
+    }
+    const pooled = [
+        ...samples.map((value) => ({ value, isCandidate: true })),
+        ...referenceSamples.map((value) => ({ value, isCandidate: false })),
+    ].sort((a, b) => a.value - b.value);
+
+    // assign the mean rank to tied values
+    let rankSum = 0;
+    let tieCorrection = 0;
+    for (let start = 0; start < pooled.length; ) {
+        let end = start + 1;
+        while (end < pooled.length && pooled[end].value === pooled[start].value) {
+            end++;
+        }
+        const rank = (start + end + 1) / 2;
+        for (let i = start; i < end; i++) {
+            if (pooled[i].isCandidate) {
+                rankSum += rank;
+            }
+        }
+        const tieSize = end - start;
+        tieCorrection += tieSize ** 3 - tieSize;
+        start = end;
+    }
+
+    // the number of pairs in which the candidate is slower, counting ties as half
+    const u = rankSum - (size1 * (size1 + 1)) / 2;
+    const pairCount = size1 * size2;
+    const cliffsDelta = (2 * u - pairCount) / pairCount;
+
+    const totalSize = size1 + size2;
+    if (!tieCorrection && totalSize <= MAX_EXACT_SAMPLE_COUNT) {
+        const distribution = getExactUDistribution(size1, size2);
+        const smallerU = Math.min(u, pairCount - u);
+        let tail = 0;
+        for (let i = 0; i <= smallerU; i++) {
+            tail += distribution[i];
+        }
+        return { cliffsDelta, pValue: Math.min(1, 2 * tail) };
+    }
+
+    const variance =
+        (pairCount / 12) * (totalSize + 1 - tieCorrection / (totalSize * (totalSize - 1)));
+    if (variance <= 0) {
+        return { cliffsDelta, pValue: 1 };
+    }
+    const z = Math.max(0, Math.abs(u - pairCount / 2) - 0.5) / Math.sqrt(variance);
+    return { cliffsDelta, pValue: Math.min(1, erfc(z / Math.SQRT2)) };
+}
+
+/**
+ * Gets the probability of each value of U for samples of the given sizes without ties
+ *
+ * The counts are the coefficients of the Gaussian binomial coefficient
+ * [size1 + size2 choose size1], built up by multiplying with (1 - q^(size2 + i)) / (1 - q^i).
+ */
+function getExactUDistribution(size1: number, size2: number): Float64Array {
+    const counts = new Float64Array(size1 * size2 + 1);
+    counts[0] = 1;
+    for (let i = 1; i <= size1; i++) {
+        for (let k = counts.length - 1; k >= size2 + i; k--) {
+            counts[k] -= counts[k - size2 - i];
+        }
+        for (let k = i; k < counts.length; k++) {
+            counts[k] += counts[k - i];
+        }
+    }
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    return counts.map((count) => count / total);
+}
+
+/**
+ * Fills target with values drawn from source with replacement
+ */
+function resample(source: Float64Array, target: Float64Array, random: Random) {
+    for (let i = 0; i < target.length; i++) {
+        target[i] = source[Math.floor(random.next() * source.length)];
+    }
+}
+
+function getMean(values: Float64Array) {
+    let sum = 0;
+    for (const value of values) {
+        sum += value;
+    }
+    return sum / values.length;
+}
+
+/**
+ * The complementary error function, with a relative error below 1.2e-7 (Numerical Recipes, erfcc)
+ */
+function erfc(x: number) {
+    const z = Math.abs(x);
+    const t = 1 / (1 + 0.5 * z);
+    const coefficients = [
+        -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807, -1.13520398,
+        1.48851587, -0.82215223, 0.17087277,
+    ];
+    let polynomial = 0;
+    for (let i = coefficients.length - 1; i > 0; i--) {
+        polynomial = t * (coefficients[i] + polynomial);
+    }
+    const result = t * Math.exp(-z * z + coefficients[0] + polynomial);
+    return x >= 0 ? result : 2 - result;
+}
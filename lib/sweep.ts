@@ -0,0 +1,137 @@
+import chalk from 'chalk';
+import { CliOptions } from './cli.ts';
+import { Harness, settle, withTelemetry } from './harness.ts';
+import { testQueryPerformance } from './query-benchmarks.ts';
+import { getQueryWorkload } from './query-workloads.ts';
+import { writeCsvFile } from './result-export.ts';
+import { insertDocuments } from './setup.ts';
+
+/**
+ * The latency of one benchmark candidate at one collection size. All times are in seconds.
+ */
+export interface SweepRow {
+    readonly workload: string;
+    readonly candidate: string;
+    readonly documentCount: number;
+    readonly meanTime: number;
+    readonly medianTime: number;
+    readonly p95Time: number;
+    readonly p99Time: number;
+}
+
+/**
+ * Estimates how the latency grows with the collection size, as the exponent k in
+ * time ~ documentCount^k (least squares fit on a log-log scale)
+ *
+ * 0 means constant, 1 linear growth. Returns undefined if there are less than two sizes.
+ */
+export function getScalingExponent(
+    points: ReadonlyArray<{ readonly documentCount: number; readonly time: number }>,
+): number | undefined {
+    const logPoints = points
+        .filter((p) => p.documentCount > 0 && p.time > 0)
+        .map((p) => ({ x: Math.log(p.documentCount), y: Math.log(p.time) }));
+    if (new Set(logPoints.map((p) => p.x)).size < 2) {
+        return undefined;
+    }
+    const meanX = logPoints.reduce((sum, p) => sum + p.x, 0) / logPoints.length;
+    const meanY = logPoints.reduce((sum, p) => sum + p.y, 0) / logPoints.length;
+    let covariance = 0;
+    let varianceX = 0;
+    for (const { x, y } of logPoints) {
+        covariance += (x - meanX) * (y - meanY);
+        varianceX += (x - meanX) ** 2;
+    }
+    return covariance / varianceX;
+}
+
+/**
+ * Formats the median latency of each candidate of a workload per collection size as a table, with
+ * one line per candidate and one column per size, followed by the scaling exponent
+ */
+export function formatSweepTable(rows: ReadonlyArray<SweepRow>): string[] {
+    const sizes = Array.from(new Set(rows.map((r) => r.documentCount))).sort((a, b) => a - b);
+    const candidates = Array.from(new Set(rows.map((r) => r.candidate)));
+    const nameWidth = Math.max(9, ...candidates.map((c) => c.length));
+    const columnWidth = 14;
+    const header = [
+        'candidate'.padEnd(nameWidth),
+        ...sizes.map((size) => `${size} docs`.padStart(columnWidth)),
+        'exponent'.padStart(columnWidth),
+    ];
+    const lines = [header.join(' ')];
+    for (const candidate of candidates) {
+        const candidateRows = rows.filter((r) => r.candidate === candidate);
+        const cells = sizes.map((size) => {
+            const row = candidateRows.find((r) => r.documentCount === size);
+            return (row ? `${(row.medianTime * 1000).toFixed(3)}ms` : '-').padStart(columnWidth);
+        });
+        const exponent = getScalingExponent(
+            candidateRows.map((r) => ({ documentCount: r.documentCount, time: r.medianTime })),
+        );
+        lines.push(
+            [
+                candidate.padEnd(nameWidth),
+                ...cells,
+                (exponent === undefined ? '-' : exponent.toFixed(2)).padStart(columnWidth),
+            ].join(' '),
+        );
+    }
+    return lines;
+}
+
+/**
+ * Grows the collection from scratch through the checkpoints and runs the workloads at each size,
+ * then reports the median latency per candidate and size
+ */
+export async function sweep(harness: Harness, cliOptions: CliOptions) {
+    const { checkpoints, benchmarks, resultsDirectory } = cliOptions;
+    const rows: SweepRow[] = [];
+    let hasErrors = false;
+    let hasRegressions = false;
+    await harness.collection.truncate();
+    let documentCount = 0;
+    for (const checkpoint of checkpoints) {
+        console.log(chalk.bold(`Growing the collection to ${checkpoint} documents`));
+        await insertDocuments(
+            harness,
+            checkpoint - documentCount,
+            `sweep-${checkpoint}`,
+            cliOptions,
+        );
+        documentCount = checkpoint;
+        await settle(harness, harness.allViews, cliOptions);
+        for (const benchmarkName of benchmarks) {
+            const { fn } = getQueryWorkload(benchmarkName)!;
+            const suiteName = `${fn.name}-${checkpoint}`;
+            const result = await withTelemetry(harness, suiteName, harness.views, cliOptions, () =>
+                testQueryPerformance(harness, fn, cliOptions, suiteName),
+            );
+            hasErrors ||= result.hasErrors;
+            hasRegressions ||= result.hasRegressions;
+            for (const { config, benchmark } of result.candidates) {
+                rows.push({
+                    workload: benchmarkName,
+                    candidate: config.name,
+                    documentCount: checkpoint,
+                    meanTime: benchmark.meanTime,
+                    medianTime: benchmark.medianTime,
+                    p95Time: benchmark.p95Time,
+                    p99Time: benchmark.p99Time,
+                });
+            }
+        }
+    }
+
+    console.log(chalk.bold('Median latency by collection size:'));
+    for (const benchmarkName of benchmarks) {
+        console.log(chalk.yellow(benchmarkName));
+        for (const line of formatSweepTable(rows.filter((r) => r.workload === benchmarkName))) {
+            console.log(`  ${line}`);
+        }
+    }
+    const path = await writeCsvFile(`sweep-${harness.dataset.name}`, rows, resultsDirectory);
+    console.log(`Sweep results written to ${path}`);
+    console.log('');
+    return { hasErrors, hasRegressions };
+}
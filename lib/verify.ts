@@ -0,0 +1,106 @@
+import { aql } from 'arangojs';
+import chalk from 'chalk';
+import { rm } from 'node:fs/promises';
+import { CliOptions } from './cli.ts';
+import {
+    checkViewConsistency,
+    ConsistencyReport,
+    ConsistencySample,
+    sampleDocuments,
+} from './consistency.ts';
+import { generateDocument } from './datasets.ts';
+import { formatConsistencyReport } from './format.ts';
+import { Harness } from './harness.ts';
+import { writeCsvFile, writeJsonFile } from './result-export.ts';
+
+/**
+ * Checks that each view contains exactly the documents of the collection
+ *
+ * The views must not find documents that are absent from the collection. By default, these are
+ * generated documents that were never inserted. With --remove-samples, they are sampled documents
+ * that are removed for the check (so it covers the indexing of removals) and inserted again
+ * afterwards.
+ *
+ * @returns true if all views are consistent
+ */
+export async function verify(
+    harness: Harness,
+    options: Pick<CliOptions, 'sampleSize' | 'removeSamples' | 'resultsDirectory'>,
+) {
+    const { database, collection, dataset, random } = harness;
+    const { sampleSize, removeSamples, resultsDirectory } = options;
+    const docs = await sampleDocuments(
+        database,
+        collection,
+        random.queries,
+        removeSamples ? sampleSize * 2 : sampleSize,
+    );
+    const present = docs.slice(0, sampleSize);
+    if (!removeSamples) {
+        // field1 is a long random token, so no stored document has the same one
+        const absent = Array.from({ length: sampleSize }, () =>
+            generateDocument(dataset, random.queries),
+        );
+        return await checkViews(harness, { present, absent }, options);
+    }
+
+    const absent = docs.slice(sampleSize);
+    const backupPath = await writeJsonFile('verify-removed-documents', absent, resultsDirectory);
+    console.log(`Temporarily removing ${absent.length} sampled documents (saved to ${backupPath})`);
+    await database.query(aql`
+        FOR doc IN ${absent} REMOVE doc._key IN ${collection}
+    `);
+    let isConsistent;
+    try {
+        isConsistent = await checkViews(harness, { present, absent }, options);
+    } finally {
+        try {
+            await database.query(aql`
+                FOR doc IN ${absent} INSERT UNSET(doc, '_id', '_rev') IN ${collection}
+            `);
+        } catch (err) {
+            console.error(
+                chalk.red(`Failed to insert the removed documents again, restore ${backupPath}`),
+            );
+            throw err;
+        }
+    }
+    await rm(backupPath);
+    return isConsistent;
+}
+
+/**
+ * Checks the consistency of each view with the sample and writes a summary
+ *
+ * @returns true if all views are consistent
+ */
+async function checkViews(
+    { database, collection, views }: Harness,
+    sample: ConsistencySample,
+    { resultsDirectory }: Pick<CliOptions, 'resultsDirectory'>,
+) {
+    const reports: ConsistencyReport[] = [];
+    for (const { view } of views) {
+        const report = await checkViewConsistency(database, collection, view, sample);
+        const color = report.isConsistent ? chalk.green : chalk.red;
+        console.log(color(`${view.name}: ${report.isConsistent ? 'consistent' : 'INCONSISTENT'}`));
+        for (const line of formatConsistencyReport(report)) {
+            console.log(`  ${line}`);
+        }
+        reports.push(report);
+    }
+    const rows = reports.map((report) => ({
+        view: report.view,
+        isConsistent: report.isConsistent,
+        collectionCount: report.collectionCount,
+        viewCount: report.viewCount,
+        categoryMismatches: report.categoryMismatches.length,
+        sampledPresent: sample.present.length,
+        missing: report.missing.length,
+        sampledAbsent: sample.absent.length,
+        phantoms: report.phantoms.length,
+    }));
+    const path = await writeCsvFile('verify', rows, resultsDirectory);
+    console.log(`Consistency results written to ${path}`);
+    return reports.every((report) => report.isConsistent);
+}
@@ -0,0 +1,211 @@
+import { readFile } from 'node:fs/promises';
+import { CreateAnalyzerOptions } from 'arangojs/analyzers';
+import { ArangoSearchViewLinkOptions, CreateArangoSearchViewOptions } from 'arangojs/views';
+import { getMultiAnalyzerFieldNames } from './search-alias.ts';
+
+export const DEFAULT_VIEW_CONFIG_PATH = 'views.json';
+
+const DEFAULT_PARALLELISM = [1];
+
+/**
+ * The view properties that can be configured per variant (and in the defaults)
+ */
+export type ViewVariantProperties = Omit<CreateArangoSearchViewOptions, 'type' | 'links'> & {
+    /**
+     * The link to the test collection. Uses the default fields if not specified.
+     */
+    readonly links?: Omit<ArangoSearchViewLinkOptions, 'nested'>;
+};
+
+export type ViewVariant = ViewVariantProperties & {
+    /**
+     * A short identifier, used for the view name and in benchmark names
+     */
+    readonly name: string;
+
+    /**
+     * A human-readable description, shown in benchmark names
+     */
+    readonly description?: string;
+};
+
+/**
+ * Indexes one field with several analyzers (one view per analyzer) to compare them
+ */
+export interface AnalyzerComparison {
+    /**
+     * The document attribute to index, e.g. "title"
+     */
+    readonly field: string;
+
+    /**
+     * The names of the analyzers to compare (custom or built-in)
+     */
+    readonly analyzers: ReadonlyArray<string>;
+}
+
+export interface ViewMatrix {
+    /**
+     * The parallelism levels each variant is benchmarked with
+     */
+    readonly parallelism: ReadonlyArray<number>;
+
+    /**
+     * The properties shared by all variants. Also used for the views of the analyzer comparison.
+     */
+    readonly defaults: ViewVariantProperties;
+
+    /**
+     * The view variants. Each one results in a separate view.
+     */
+    readonly variants: ReadonlyArray<ViewVariant>;
+
+    /**
+     * If true, every variant is also set up as a search-alias view backed by equivalent inverted
+     * indexes, and benchmarked side by side with the arangosearch view
+     */
+    readonly searchAlias: boolean;
+
+    /**
+     * Custom analyzers, by name. They are created on setup and can be used in links.
+     */
+    readonly analyzers: Readonly<Record<string, CreateAnalyzerOptions>>;
+
+    readonly analyzerComparison?: AnalyzerComparison;
+}
+
+/**
+ * Thrown if the view config file is invalid
+ */
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * Reads a view matrix from a JSON file
+ *
+ * The file has the shape { parallelism?: number[], defaults?: {...}, variants: [...],
+ * searchAlias?: boolean, analyzers?: {...}, analyzerComparison?: {...} }. The properties in
+ * "defaults" are applied to every variant unless the variant overrides them.
+ */
+export async function loadViewMatrix(path: string): Promise<ViewMatrix> {
+    let json;
+    try {
+        json = JSON.parse(await readFile(path, 'utf-8'));
+    } catch (err: any) {
+        throw new ConfigError(`Failed to read view config ${path}: ${err.message}`);
+    }
+    return parseViewMatrix(json, path);
+}
+
+export function parseViewMatrix(json: unknown, source = 'view config'): ViewMatrix {
+    if (!isObject(json)) {
+        throw new ConfigError(`${source}: expected an object`);
+    }
+
+    const parallelism = json.parallelism ?? DEFAULT_PARALLELISM;
+    if (
+        !Array.isArray(parallelism) ||
+        !parallelism.length ||
+        !parallelism.every((p) => Number.isInteger(p) && p > 0)
+    ) {
+        throw new ConfigError(`${source}: "parallelism" must be an array of positive integers`);
+    }
+
+    const defaults = json.defaults ?? {};
+    if (!isObject(defaults)) {
+        throw new ConfigError(`${source}: "defaults" must be an object`);
+    }
+
+    if (!Array.isArray(json.variants) || !json.variants.length) {
+        throw new ConfigError(`${source}: "variants" must be a non-empty array`);
+    }
+    const names = new Set<string>();
+    const variants = json.variants.map((variant, index): ViewVariant => {
+        if (!isObject(variant)) {
+            throw new ConfigError(`${source}: variant #${index + 1} must be an object`);
+        }
+        const { name } = variant;
+        if (typeof name !== 'string' || !/^[a-zA-Z0-9_-]+$/.test(name)) {
+            throw new ConfigError(
+                `${source}: variant #${
+                    index + 1
+                } needs a "name" consisting of letters, digits, _ and -`,
+            );
+        }
+        if (names.has(name)) {
+            throw new ConfigError(`${source}: duplicate variant name "${name}"`);
+        }
+        names.add(name);
+        return { ...defaults, ...variant } as ViewVariant;
+    });
+
+    const searchAlias = json.searchAlias ?? false;
+    if (typeof searchAlias !== 'boolean') {
+        throw new ConfigError(`${source}: "searchAlias" must be a boolean`);
+    }
+    const unsupportedVariant = variants.find(
+        (v) => v.consolidationPolicy && v.consolidationPolicy.type !== 'tier',
+    );
+    if (searchAlias && unsupportedVariant) {
+        throw new ConfigError(
+            `${source}: variant "${unsupportedVariant.name}" can't be used with "searchAlias" ` +
+                'because inverted indexes only support the "tier" consolidation policy',
+        );
+    }
+    for (const { name, links } of searchAlias ? variants : []) {
+        const [field] = links ? getMultiAnalyzerFieldNames(links) : [];
+        if (field) {
+            throw new ConfigError(
+                `${source}: variant "${name}" can't be used with "searchAlias" because its field ` +
+                    `"${field}" has more than one analyzer, which inverted indexes don't support`,
+            );
+        }
+    }
+
+    const analyzers = json.analyzers ?? {};
+    if (!isObject(analyzers)) {
+        throw new ConfigError(`${source}: "analyzers" must be an object`);
+    }
+    for (const [name, analyzer] of Object.entries(analyzers)) {
+        if (!isObject(analyzer) || typeof analyzer.type !== 'string') {
+            throw new ConfigError(`${source}: analyzer "${name}" must be an object with a "type"`);
+        }
+    }
+
+    return {
+        parallelism,
+        defaults,
+        variants,
+        searchAlias,
+        analyzers: analyzers as Record<string, CreateAnalyzerOptions>,
+        analyzerComparison: parseAnalyzerComparison(json.analyzerComparison, source),
+    };
+}
+
+function parseAnalyzerComparison(json: unknown, source: string): AnalyzerComparison | undefined {
+    if (json === undefined) {
+        return undefined;
+    }
+    if (!isObject(json) || typeof json.field !== 'string' || !json.field) {
+        throw new ConfigError(`${source}: "analyzerComparison" needs a "field"`);
+    }
+    const { field, analyzers } = json;
+    if (
+        !Array.isArray(analyzers) ||
+        !analyzers.length ||
+        !analyzers.every((a) => typeof a === 'string' && /^[a-zA-Z0-9_-]+$/.test(a))
+    ) {
+        throw new ConfigError(
+            `${source}: "analyzerComparison.analyzers" must be a non-empty array of analyzer names`,
+        );
+    }
+    return { field, analyzers };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
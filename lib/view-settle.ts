@@ -0,0 +1,94 @@
+import { aql, Database } from 'arangojs';
+import { DocumentCollection } from 'arangojs/collections';
+import { setTimeout } from 'node:timers/promises';
+import { captureViewTelemetry, ViewTelemetrySnapshot } from './view-telemetry.ts';
+
+const DEFAULT_SETTLE_TIMEOUT = 300;
+const DEFAULT_POLL_INTERVAL = 1;
+const DEFAULT_STABLE_POLLS = 3;
+
+export interface SettleOptions {
+    /**
+     * The maximum number of seconds to wait
+     */
+    readonly timeout?: number;
+
+    /**
+     * The number of seconds between two checks
+     */
+    readonly pollInterval?: number;
+
+    /**
+     * The number of consecutive checks in which the segment counts must not change
+     */
+    readonly stablePolls?: number;
+}
+
+/**
+ * Thrown if the views did not settle within the timeout
+ */
+export class SettleTimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SettleTimeoutError';
+    }
+}
+
+/**
+ * Waits until the views have caught up with the collection and consolidation has calmed down
+ *
+ * A view is considered settled when it contains as many documents as the collection (using a
+ * waitForSync query so pending changes are committed) and its segment count did not change for a
+ * few consecutive checks. Only meaningful while nothing writes into the collection.
+ *
+ * @returns the telemetry snapshots of the last check
+ */
+export async function settleViews(
+    database: Database,
+    collection: DocumentCollection,
+    viewNames: ReadonlyArray<string>,
+    options: SettleOptions = {},
+): Promise<ViewTelemetrySnapshot[]> {
+    const timeout = options.timeout ?? DEFAULT_SETTLE_TIMEOUT;
+    const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    const stablePolls = options.stablePolls ?? DEFAULT_STABLE_POLLS;
+    const deadline = Date.now() + timeout * 1000;
+
+    let previousSegments: Map<string, number | undefined> | undefined;
+    let stableCount = 0;
+    while (true) {
+        const unsyncedViews: string[] = [];
+        for (const viewName of viewNames) {
+            const cursor = await database.query(aql`
+                FOR doc IN ${database.view(viewName)} OPTIONS { waitForSync: true }
+                COLLECT WITH COUNT INTO count RETURN count
+            `);
+            const [viewCount] = await cursor.all();
+            const { count: collectionCount } = await collection.count();
+            if (viewCount !== collectionCount) {
+                unsyncedViews.push(`${viewName} (${viewCount} of ${collectionCount} documents)`);
+            }
+        }
+
+        const snapshots = await captureViewTelemetry(database, collection, viewNames);
+        const changedViews = snapshots
+            .filter((s) => !previousSegments || previousSegments.get(s.view) !== s.numSegments)
+            .map((s) => `${s.view} (${s.numSegments} segments)`);
+        previousSegments = new Map(snapshots.map((s) => [s.view, s.numSegments]));
+
+        stableCount = !unsyncedViews.length && !changedViews.length ? stableCount + 1 : 0;
+        if (stableCount >= stablePolls) {
+            return snapshots;
+        }
+        if (Date.now() > deadline) {
+            const reasons = [
+                ...(unsyncedViews.length ? [`not in sync: ${unsyncedViews.join(', ')}`] : []),
+                ...(changedViews.length ? [`still consolidating: ${changedViews.join(', ')}`] : []),
+            ];
+            throw new SettleTimeoutError(
+                `Views did not settle within ${timeout} seconds (${reasons.join('; ')})`,
+            );
+        }
+        await setTimeout(pollInterval * 1000);
+    }
+}
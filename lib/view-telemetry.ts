@@ -0,0 +1,216 @@
+import { Database } from 'arangojs';
+import { DocumentCollection } from 'arangojs/collections';
+import { HiddenIndexDescription, InvertedIndexDescription } from 'arangojs/indexes';
+import { SearchAliasViewProperties } from 'arangojs/views';
+import { setTimeout } from 'node:timers/promises';
+
+/**
+ * The state of a view's link to the test collection at one point in time
+ *
+ * For search-alias views, the figures and metrics of the inverted indexes behind the view are
+ * combined: sizes, segments and metrics are summed up, document counts are those of the index that
+ * is furthest behind.
+ *
+ * Fields are undefined if the server did not report them (e.g. metrics require admin access).
+ */
+export interface ViewTelemetrySnapshot {
+    readonly time: string;
+    readonly view: string;
+    readonly collectionCount: number;
+    readonly numDocs: number | undefined;
+    readonly numLiveDocs: number | undefined;
+    readonly numPrimaryDocs: number | undefined;
+    readonly numSegments: number | undefined;
+    readonly numFiles: number | undefined;
+    readonly indexSize: number | undefined;
+
+    /**
+     * Documents in the collection that are not (yet) visible in the view, i.e. waiting for a commit
+     */
+    readonly pendingDocs: number | undefined;
+
+    /**
+     * Average duration, in milliseconds, of the recent commits
+     */
+    readonly commitTime: number | undefined;
+
+    /**
+     * Average duration, in milliseconds, of the recent consolidations
+     */
+    readonly consolidationTime: number | undefined;
+    readonly numFailedCommits: number | undefined;
+    readonly numFailedConsolidations: number | undefined;
+}
+
+type SearchMetrics = Map<string, Map<string, number>>;
+
+/**
+ * Captures a snapshot of the link figures and search metrics of each of the given views
+ */
+export async function captureViewTelemetry(
+    database: Database,
+    collection: DocumentCollection,
+    viewNames: ReadonlyArray<string>,
+): Promise<ViewTelemetrySnapshot[]> {
+    const time = new Date().toISOString();
+    const [{ count: collectionCount }, indexes, metrics] = await Promise.all([
+        collection.count(),
+        collection.indexes<HiddenIndexDescription>({ withStats: true, withHidden: true }),
+        getSearchMetrics(database),
+    ]);
+    return Promise.all(
+        viewNames.map(async (view) => {
+            const link = indexes.find(
+                (index) => index.type === 'arangosearch' && index.view === view,
+            );
+            let indexFigures: Array<Record<string, number | undefined>>;
+            let indexMetrics: Array<Map<string, number> | undefined>;
+            if (link) {
+                indexFigures = [link.figures ?? {}];
+                indexMetrics = [metrics.get(view)];
+            } else {
+                // search-alias view: find the inverted indexes it consists of
+                const names = await getInvertedIndexNames(database, collection.name, view);
+                const invertedIndexes = indexes.filter(
+                    (index): index is InvertedIndexDescription =>
+                        index.type === 'inverted' && names.includes(index.name),
+                );
+                indexFigures = invertedIndexes.map((index) => index.figures ?? {});
+                indexMetrics = invertedIndexes.map((index) => metrics.get(index.name));
+            }
+            const sum = (name: string) => sumDefined(indexFigures.map((f) => f[name]));
+            const min = (name: string) => minDefined(indexFigures.map((f) => f[name]));
+            const sumMetric = (name: string) => sumDefined(indexMetrics.map((m) => m?.get(name)));
+            const numLiveDocs = min('numLiveDocs');
+            return {
+                time,
+                view,
+                collectionCount,
+                numDocs: min('numDocs'),
+                numLiveDocs,
+                numPrimaryDocs: min('numPrimaryDocs'),
+                numSegments: sum('numSegments'),
+                numFiles: sum('numFiles'),
+                indexSize: sum('indexSize'),
+                pendingDocs: numLiveDocs !== undefined ? collectionCount - numLiveDocs : undefined,
+                commitTime: sumMetric('arangodb_search_commit_time'),
+                consolidationTime: sumMetric('arangodb_search_consolidation_time'),
+                numFailedCommits: sumMetric('arangodb_search_num_failed_commits'),
+                numFailedConsolidations: sumMetric('arangodb_search_num_failed_consolidations'),
+            };
+        }),
+    );
+}
+
+async function getInvertedIndexNames(
+    database: Database,
+    collectionName: string,
+    viewName: string,
+): Promise<string[]> {
+    const properties = await database.view(viewName).properties();
+    if (properties.type !== 'search-alias') {
+        return [];
+    }
+    return (properties as SearchAliasViewProperties).indexes
+        .filter((index) => index.collection === collectionName)
+        .map((index) => index.index);
+}
+
+function sumDefined(values: ReadonlyArray<number | undefined>) {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length ? defined.reduce((a, b) => a + b, 0) : undefined;
+}
+
+function minDefined(values: ReadonlyArray<number | undefined>) {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length ? Math.min(...defined) : undefined;
+}
+
+/**
+ * Reads the arangodb_search_* metrics, summed up per view (a view has one entry per shard). The
+ * metrics of inverted indexes are not labeled with a view, they are summed up per index name.
+ *
+ * Returns an empty map if the metrics are not available.
+ */
+async function getSearchMetrics(database: Database): Promise<SearchMetrics> {
+    let text: string;
+    try {
+        const response = await database.route('_admin/metrics/v2').get();
+        text = String(response.parsedBody);
+    } catch (err) {
+        return new Map();
+    }
+    const metrics: SearchMetrics = new Map();
+    for (const line of text.split('\n')) {
+        const match = line.match(/^(arangodb_search_\w+)\{(.*)\}\s+(\S+)$/);
+        const labels = match?.[2];
+        const view = labels?.match(/(?:^|,)view="([^"]*)"/)?.[1];
+        const key = view || labels?.match(/(?:^|,)index="([^"]*)"/)?.[1];
+        if (!match || !key) {
+            continue;
+        }
+        const [, name, , value] = match;
+        let viewMetrics = metrics.get(key);
+        if (!viewMetrics) {
+            viewMetrics = new Map();
+            metrics.set(key, viewMetrics);
+        }
+        viewMetrics.set(name, (viewMetrics.get(name) ?? 0) + Number(value));
+    }
+    return metrics;
+}
+
+/**
+ * Periodically captures snapshots in the background until stopped
+ */
+export class TelemetrySampler<T> {
+    private readonly abortController = new AbortController();
+    private readonly samples: T[] = [];
+    private loop: Promise<void> | undefined;
+
+    /**
+     * @param capture called once per interval, the returned values are collected
+     * @param interval the time between two captures, in seconds
+     */
+    constructor(
+        private readonly capture: () => Promise<ReadonlyArray<T>>,
+        private readonly interval: number,
+    ) {}
+
+    start() {
+        if (this.loop) {
+            throw new Error('Sampler has already been started');
+        }
+        this.loop = this.run();
+    }
+
+    /**
+     * Stops sampling and returns all samples collected so far
+     */
+    async stop(): Promise<ReadonlyArray<T>> {
+        this.abortController.abort();
+        await this.loop;
+        return this.samples;
+    }
+
+    private async run() {
+        const signal = this.abortController.signal;
+        let hasLoggedError = false;
+        while (!signal.aborted) {
+            try {
+                this.samples.push(...(await this.capture()));
+            } catch (err: any) {
+                // telemetry is secondary - don't break the workload because of it
+                if (!hasLoggedError) {
+                    console.warn(`Failed to capture telemetry: ${err.message}`);
+                    hasLoggedError = true;
+                }
+            }
+            try {
+                await setTimeout(this.interval * 1000, undefined, { signal });
+            } catch {
+                // aborted
+            }
+        }
+    }
+}
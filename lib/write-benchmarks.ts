@@ -0,0 +1,72 @@
+import { BenchmarkConfig } from './async-bench.ts';
+import { CliOptions } from './cli.ts';
+import { runComparisons } from './compare-runner.ts';
+import { generateDocument } from './datasets.ts';
+import { getInstanceName, getSuiteOptions, Harness, settle } from './harness.ts';
+import { captureViewTelemetry } from './view-telemetry.ts';
+import {
+    getDocumentThroughput,
+    measureVisibilityLatency,
+    measureWrite,
+    WRITE_OPERATIONS,
+} from './write-workloads.ts';
+
+/**
+ * Compares the time per document of batched inserts, updates and removals, then the time until an
+ * inserted document becomes searchable in each view
+ *
+ * All views are linked to the collection, so the writes always index into all of them.
+ */
+export async function compareWrites(harness: Harness, cliOptions: CliOptions) {
+    const { database, collection, views, dataset, random, store } = harness;
+    const { batchSize, duration, concurrency } = cliOptions;
+    const options: Partial<BenchmarkConfig> = {
+        maxTime: duration,
+        initialCount: 10,
+        concurrency,
+    };
+    const writeConfigs = WRITE_OPERATIONS.map(
+        (operation): BenchmarkConfig => ({
+            name: `${operation} per document, batches of ${batchSize}`,
+            fn: () => measureWrite(store, operation, batchSize),
+            ...options,
+        }),
+    );
+    const writeResult = await runComparisons(writeConfigs, {
+        name: 'writes',
+        parameters: { batchSize, unit: 'document' },
+        ...getSuiteOptions(harness, cliOptions),
+    });
+    for (const { config, benchmark } of writeResult.candidates) {
+        const throughput = getDocumentThroughput(benchmark);
+        console.log(`${config.name}: ${Math.round(throughput)} documents/s`);
+    }
+    console.log('');
+
+    const insertDocument = async () => {
+        const doc = generateDocument(dataset, random.data);
+        await collection.save(doc);
+        return doc.field1;
+    };
+    const visibilityConfigs = views.map(
+        (instance): BenchmarkConfig => ({
+            name: `visibility, ${getInstanceName(instance)}`,
+            fn: () =>
+                measureVisibilityLatency(database, instance.view, insertDocument, {
+                    timeout: cliOptions.settleTimeout,
+                }),
+            beforeAll: () => settle(harness, [instance], cliOptions),
+            captureSnapshot: async () =>
+                (await captureViewTelemetry(database, collection, [instance.view.name]))[0],
+            ...options,
+        }),
+    );
+    const visibilityResult = await runComparisons(visibilityConfigs, {
+        name: 'visibility',
+        ...getSuiteOptions(harness, cliOptions),
+    });
+    return {
+        hasErrors: writeResult.hasErrors || visibilityResult.hasErrors,
+        hasRegressions: writeResult.hasRegressions || visibilityResult.hasRegressions,
+    };
+}
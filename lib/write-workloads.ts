@@ -0,0 +1,113 @@
+import { aql, Database } from 'arangojs';
+import { View } from 'arangojs/views';
+import { setTimeout } from 'node:timers/promises';
+import { BenchmarkResult, time } from './async-bench.ts';
+
+/**
+ * The number of times a batch that wrote nothing (e.g. because the random slice to remove was
+ * empty) is picked again before giving up
+ */
+const MAX_EMPTY_BATCHES = 10;
+
+const DEFAULT_VISIBILITY_TIMEOUT = 60;
+const DEFAULT_VISIBILITY_POLL_INTERVAL = 0.01;
+
+export const WRITE_OPERATIONS = ['insert', 'update', 'remove'] as const;
+
+export type WriteOperation = (typeof WRITE_OPERATIONS)[number];
+
+/**
+ * The write operations on the test collection. Each returns the number of documents written.
+ */
+export type WriteStore = Record<WriteOperation, (count: number) => Promise<number>>;
+
+/**
+ * Performs one batch of the write operation and returns its duration per written document, in
+ * seconds, so that partial batches are comparable with full ones
+ *
+ * Batches that write nothing are not measured but picked again.
+ */
+export async function measureWrite(
+    store: WriteStore,
+    operation: WriteOperation,
+    batchSize: number,
+): Promise<number> {
+    for (let attempt = 0; attempt < MAX_EMPTY_BATCHES; attempt++) {
+        const startTime = time();
+        const writtenCount = await store[operation](batchSize);
+        const duration = time() - startTime;
+        if (writtenCount) {
+            return duration / writtenCount;
+        }
+    }
+    throw new Error(`${operation} did not write any documents in ${MAX_EMPTY_BATCHES} batches`);
+}
+
+/**
+ * Derives the number of documents written per second from a benchmark of measureWrite()
+ */
+export function getDocumentThroughput({
+    meanTime,
+    concurrency,
+}: Pick<BenchmarkResult, 'meanTime' | 'concurrency'>) {
+    return concurrency / meanTime;
+}
+
+export interface VisibilityOptions {
+    /**
+     * The maximum number of seconds to wait for the document to become searchable
+     */
+    readonly timeout?: number;
+
+    /**
+     * The number of seconds between two searches
+     */
+    readonly pollInterval?: number;
+}
+
+/**
+ * Thrown if an inserted document did not become searchable within the timeout
+ */
+export class VisibilityTimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VisibilityTimeoutError';
+    }
+}
+
+/**
+ * Inserts a document and measures the time until a search in the view finds it, i.e. until the
+ * view has committed it
+ *
+ * The result is only as precise as the poll interval.
+ *
+ * @param insertDocument inserts one document and returns its field1
+ * @returns the time in seconds from starting the insert until the document was found
+ */
+export async function measureVisibilityLatency(
+    database: Database,
+    view: View,
+    insertDocument: () => Promise<string>,
+    options: VisibilityOptions = {},
+): Promise<number> {
+    const timeout = options.timeout ?? DEFAULT_VISIBILITY_TIMEOUT;
+    const pollInterval = options.pollInterval ?? DEFAULT_VISIBILITY_POLL_INTERVAL;
+    const startTime = time();
+    const field1 = await insertDocument();
+    while (true) {
+        const cursor = await database.query(aql`
+            FOR a IN ${view} SEARCH a.field1 == ${field1} LIMIT 1 RETURN 1
+        `);
+        const [found] = await cursor.all();
+        const duration = time() - startTime;
+        if (found) {
+            return duration;
+        }
+        if (duration > timeout) {
+            throw new VisibilityTimeoutError(
+                `Document with field1 == ${field1} did not appear in ${view.name} within ${timeout} seconds`,
+            );
+        }
+        await setTimeout(pollInterval * 1000);
+    }
+}
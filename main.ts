@@ -1,9 +1,19 @@
-import { aql, Database } from 'arangojs';
-import { setTimeout } from 'node:timers/promises';
+import { Database } from 'arangojs';
 import dotenv from 'dotenv';
-import { ArangoSearchViewLinkOptions, ArangoSearchViewProperties, View } from 'arangojs/views';
-import { runComparisons } from './lib/compare-runner.js';
-import { BenchmarkConfig } from './lib/async-bench.js';
+import { parseCommandLine, USAGE, UsageError } from './lib/cli.js';
+import { createSeed } from './lib/random.js';
+import { runChurn } from './lib/churn.js';
+import { ConfigError, loadViewMatrix } from './lib/view-config.js';
+import { getDatasetProfile } from './lib/datasets.js';
+import { getQueryWorkload } from './lib/query-workloads.js';
+import { sweep } from './lib/sweep.js';
+import { createHarness, getChurnWorkload, settle, withTelemetry } from './lib/harness.js';
+import { reInitData, setUp } from './lib/setup.js';
+import { checkAnalyzerComparisonField, compareAnalyzers } from './lib/analyzer-comparison.js';
+import { compareWrites } from './lib/write-benchmarks.js';
+import { testQueryPerformance } from './lib/query-benchmarks.js';
+import { verify } from './lib/verify.js';
+import { checkSearchAliasDataset } from './lib/search-alias.js';
 
 dotenv.config();
 
@@ -23,221 +33,117 @@ const database = new Database({
 });
 
 const collection = database.collection(COLLECTION_NAME);
-const view1 = database.view(COLLECTION_NAME + '_view');
-const view2 = database.view(COLLECTION_NAME + '_view2');
-const views = [view1, view2];
-
-const links: Record<string, Omit<ArangoSearchViewLinkOptions, 'nested'>> = {
-    [COLLECTION_NAME]: {
-        fields: {
-            field1: {
-                analyzers: ['identity'],
-            },
-            field2: {
-                analyzers: ['identity'],
-            },
-            field3: {
-                analyzers: ['identity'],
-            },
-            field4: {
-                analyzers: ['identity'],
-            },
-            field5: {
-                analyzers: ['identity'],
-            },
-            category: {
-                analyzers: ['identity'],
-            },
-        },
-    },
-};
-
-async function setup() {
-    if (await collection.exists()) {
-        await collection.drop();
-    }
-    await collection.create();
-    await collection.ensureIndex({ type: 'persistent', fields: ['gauge'] });
-
-    if (await view1.exists()) {
-        await view1.drop();
-    }
-    await view1.create({
-        type: 'arangosearch',
-        links,
-        commitIntervalMsec: 1000,
-        consolidationIntervalMsec: 1000,
-        consolidationPolicy: {
-            type: 'tier',
-            segmentsBytesMax: 3_000_000,
-        },
-    });
-
-    if (await view2.exists()) {
-        await view2.drop();
-    }
-    await view2.create({
-        type: 'arangosearch',
-        links,
-        commitIntervalMsec: 1000,
-        consolidationIntervalMsec: 1000,
-        consolidationPolicy: {
-            type: 'tier',
-            segmentsMin: 3,
-        },
-    });
-
-    await reInitData();
-}
-
-async function reInitData() {
-    // reduce commit interval so the resulting layout of segments is closer to
-    // how it would be if the inserts were not done in bulk
-    let oldProps = new Map<View, ArangoSearchViewProperties>();
-    for (const view of views) {
-        const props = (await view.properties()) as ArangoSearchViewProperties;
-        oldProps.set(view, props);
-        await view.updateProperties({
-            commitIntervalMsec: 10,
-        });
-    }
 
+async function main() {
+    let options;
+    let harness;
     try {
-        await collection.truncate();
-        const batches = 10000;
-        const countPerPatch = 1000;
-        console.log(
-            `Inserting ${batches * countPerPatch} initial documents in ${batches} batches...`,
-        );
-        for (let i = 0; i < batches; i++) {
-            await insert(countPerPatch);
-            await setTimeout(10);
+        options = parseCommandLine(process.argv.slice(2));
+        if (!options) {
+            console.log(USAGE);
+            return;
+        }
+        const matrix = await loadViewMatrix(options.config);
+        const seed = options.seed ?? createSeed();
+        const dataset = getDatasetProfile(options.dataset)!;
+        harness = createHarness(database, collection, matrix, {
+            command: options.command,
+            dataset,
+            seed,
+            views: options.views,
+        });
+        console.log(`Using seed ${seed} (pass --seed ${seed} to replay this run)`);
+        if (options.command === 'analyzers') {
+            if (!matrix.analyzerComparison) {
+                throw new ConfigError(`${options.config}: "analyzerComparison" is not configured`);
+            }
+            checkAnalyzerComparisonField(matrix.analyzerComparison, dataset);
         }
-    } finally {
-        for (const view of views) {
-            const props = oldProps.get(view);
-            await view.updateProperties({
-                commitIntervalMsec: props!.commitIntervalMsec,
-            });
+        checkSearchAliasDataset(matrix, dataset, options.config);
+    } catch (err) {
+        if (err instanceof UsageError) {
+            console.error(err.message);
+            console.error('');
+            console.error(USAGE);
+            process.exitCode = 2;
+            return;
         }
+        if (err instanceof ConfigError) {
+            console.error(err.message);
+            process.exitCode = 2;
+            return;
+        }
+        throw err;
     }
-    console.log('Done.');
-}
-
-async function insert(count = 1) {
-    await database.query(aql`
-        FOR index in RANGE(1, ${count})
-        INSERT { field1: RANDOM_TOKEN(60), field2: RANDOM_TOKEN(60), field3: RANDOM_TOKEN(60), field4: RANDOM_TOKEN(60), field5: RANDOM_TOKEN(60), category: FLOOR(RAND() * 8), gauge: RAND() } IN ${collection}
-    `);
-}
-
-async function remove(count = 1) {
-    // remove random slice of documents
-    // the "gauge" field is evenly distributed between 0 and 1
-    // there is a regular (persistent) index on gauge, so we can cheaply do this
-    const targetGauge = Math.random();
-    await database.query(aql`
-        FOR doc IN ${collection} FILTER doc.gauge > ${targetGauge} SORT doc.gauge ASC LIMIT 0, ${count} REMOVE doc IN ${collection}
-    `);
-}
-
-async function testQueryPerformance(fn: PerfQueryFn) {
-    const options: Partial<BenchmarkConfig> = {
-        maxTime: 3, // times 3 because of 3 cycles
-        initialCount: 10,
-    };
-    await runComparisons([
-        {
-            name: fn.name + ', view1 (segmentsBytesMax), no parallelism',
-            fn: () => fn({ view: view1, parallelism: 1 }),
-            ...options,
-        },
-        {
-            name: fn.name + ', view1 (segmentsBytesMax), parallelism = 16',
-            fn: () => fn({ view: view1, parallelism: 16 }),
-            ...options,
-        },
-        {
-            name: fn.name + ', view2 (segmentsMin), no parallelism',
-            fn: () => fn({ view: view2, parallelism: 1 }),
-            ...options,
-        },
-        {
-            name: fn.name + ', view2 (segmentsMin), parallelism = 16',
-            fn: () => fn({ view: view2, parallelism: 16 }),
-            ...options,
-        },
-    ]);
-}
-
-interface PerfQueryOptions {
-    readonly view: View;
-    readonly parallelism: number;
-}
-
-type PerfQueryFn = (options: PerfQueryOptions) => Promise<number>;
 
-async function perfQueryCount({ view, parallelism }: PerfQueryOptions) {
-    const res = await database.query(
-        aql`for a in ${view} search a.category == 0 options { parallelism: ${parallelism} } collect with count into c return c`,
-        { profile: true },
-    );
-    return (res.extra.profile as any).executing;
-}
-
-async function perfQueryFind({ view, parallelism }: PerfQueryOptions) {
-    const targetGauge = Math.random() * 0.9; // don't go up to 1 because we might not find any then
-    const result = await database.query(aql`
-        FOR doc IN ${collection} FILTER doc.gauge > ${targetGauge} SORT doc.gauge ASC LIMIT 0, 1 RETURN doc
-    `);
-    const docs = await result.all();
-    if (!docs.length) {
-        throw new Error(`Did not find doc with gauge ${targetGauge}`);
-    }
-    const targetField1 = docs[0].field1;
-    const res = await database.query(
-        aql`for a in ${view} search a.field1 == ${targetField1} options { parallelism: ${parallelism} } return a.field1`,
-        { profile: true },
-    );
-    const foundItems = await res.all();
-    if (!foundItems.length) {
-        throw new Error(`arangosearch failed to find doc with field1 == ${targetField1}`);
-    }
-    if (foundItems[0] !== targetField1) {
-        throw new Error(
-            `arangosearch found doc with field1 == ${foundItems[0]} but should have been field1 = ${targetField1}`,
-        );
+    switch (options.command) {
+        case 'setup':
+        case 'all':
+            await setUp(harness, options);
+            break;
+        case 'reinit':
+            await reInitData(harness, options);
+            break;
+        case 'churn':
+            await withTelemetry(harness, 'churn', harness.allViews, options, () =>
+                runChurn(harness.store, {
+                    ...getChurnWorkload(options),
+                    random: harness.random.churn,
+                    duration: options.duration,
+                    operations: options.operations,
+                    rate: options.churnRate,
+                }),
+            );
+            await settle(harness, harness.allViews, options);
+            break;
+        case 'analyzers': {
+            const result = await compareAnalyzers(
+                harness,
+                harness.matrix.analyzerComparison!,
+                options,
+            );
+            if (result.hasErrors || result.hasRegressions) {
+                process.exitCode = 1;
+            }
+            break;
+        }
+        case 'verify':
+            if (!(await verify(harness, options))) {
+                process.exitCode = 1;
+            }
+            break;
+        case 'sweep': {
+            const result = await sweep(harness, options);
+            if (result.hasErrors || result.hasRegressions) {
+                process.exitCode = 1;
+            }
+            break;
+        }
+        case 'writes': {
+            const result = await withTelemetry(harness, 'writes', harness.views, options, () =>
+                compareWrites(harness, options),
+            );
+            if (result.hasErrors || result.hasRegressions) {
+                process.exitCode = 1;
+            }
+            break;
+        }
     }
-    return (res.extra.profile as any).executing;
-}
 
-async function run() {
-    let totalInserts = 0;
-    let totalRemovals = 0;
-    while (true) {
-        const inserts = Math.round(10 ** (Math.random() * 2));
-        const removals = Math.round(10 ** (Math.random() * 2));
-        const delay = Math.round(10 ** (Math.random() * 4));
-        await insert(inserts);
-        await remove(inserts);
-        totalInserts += inserts;
-        totalRemovals += removals;
-        console.log(
-            `Inserted ${String(inserts).padStart(4)} documents, removed ${String(removals).padStart(
-                4,
-            )} docs (${totalInserts} inserts in total, ${totalRemovals} removals in total), waiting ${delay} ms`,
+    // the sweep runs the benchmarks itself at each size
+    const benchmarks = options.command === 'sweep' ? [] : options.benchmarks;
+    for (const benchmarkName of benchmarks) {
+        const { fn } = getQueryWorkload(benchmarkName)!;
+        const result = await withTelemetry(harness, fn.name, harness.views, options, () =>
+            testQueryPerformance(harness, fn, options),
         );
-        await setTimeout(delay);
+        if (result.hasErrors || result.hasRegressions) {
+            process.exitCode = 1;
+        }
     }
 }
 
-async function main() {
-    await setup();
-    //await reInitData();
-    await run();
-
-    //await testQueryPerformance(perfQueryCount);
-    //await testQueryPerformance(perfQueryFind);
-}
-
-main().catch((err) => console.error(err));
+main().catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+});
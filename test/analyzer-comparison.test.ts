@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { checkAnalyzerComparisonField } from '../lib/analyzer-comparison.ts';
+import { UsageError } from '../lib/cli.ts';
+import { getDatasetProfile } from '../lib/datasets.ts';
+
+describe('checkAnalyzerComparisonField', () => {
+    const analyzers = ['text_en', 'ngram_3'];
+
+    test('accepts fields of the dataset', () => {
+        checkAnalyzerComparisonField({ field: 'title', analyzers }, getDatasetProfile('text')!);
+        checkAnalyzerComparisonField({ field: 'field1', analyzers }, getDatasetProfile('tokens')!);
+    });
+
+    test('names the datasets that have the field', () => {
+        assert.throws(
+            () =>
+                checkAnalyzerComparisonField(
+                    { field: 'title', analyzers },
+                    getDatasetProfile('tokens')!,
+                ),
+            (err) =>
+                err instanceof UsageError &&
+                /requires --dataset text, got "tokens"/.test(err.message),
+        );
+    });
+
+    test('rejects fields of no dataset', () => {
+        assert.throws(
+            () =>
+                checkAnalyzerComparisonField(
+                    { field: 'missing', analyzers },
+                    getDatasetProfile('text')!,
+                ),
+            /not a field of any dataset/,
+        );
+    });
+});
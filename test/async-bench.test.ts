@@ -0,0 +1,257 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+    benchmark,
+    BenchmarkConfig,
+    BenchmarkIterationError,
+    BenchmarkResult,
+    BenchmarkRun,
+    BenchmarkState,
+    getTimings,
+    nextIterationCount,
+} from '../lib/async-bench.ts';
+import { createFakeFn, FakeClock } from './fake-clock.ts';
+
+describe('getTimings', () => {
+    test('computes the mean, percentiles and spread', () => {
+        const timings = getTimings([4, 1, 3, 2]);
+        assert.equal(timings.sampleCount, 4);
+        assert.equal(timings.meanTime, 2.5);
+        assert.equal(timings.minTime, 1);
+        assert.equal(timings.maxTime, 4);
+        assert.equal(timings.medianTime, 2.5);
+        assert.ok(Math.abs(timings.p90Time - 3.7) < 1e-9);
+        assert.ok(Math.abs(timings.standardDeviation - Math.sqrt(1.25)) < 1e-9);
+        // 3.182 is the critical t-value for 3 degrees of freedom
+        const expectedMarginOfError = ((Math.sqrt(1.25) / 2) * 3.182) / 2.5;
+        assert.ok(Math.abs(timings.relativeMarginOfError - expectedMarginOfError) < 1e-9);
+    });
+
+    test('puts every sample into a histogram bucket', () => {
+        const samples = Array.from({ length: 100 }, (_, i) => 0.001 * (i + 1));
+        const { histogram } = getTimings(samples);
+        assert.equal(histogram.length, 10);
+        assert.equal(
+            histogram.reduce((sum, bucket) => sum + bucket.count, 0),
+            samples.length,
+        );
+        assert.equal(histogram[0].lowerBound, 0.001);
+        assert.equal(histogram[histogram.length - 1].upperBound, 0.1);
+    });
+
+    test('uses a single bucket if all samples are equal', () => {
+        assert.deepEqual(getTimings([2, 2, 2]).histogram, [
+            { lowerBound: 2, upperBound: 2, count: 3 },
+        ]);
+    });
+
+    test('handles no samples', () => {
+        const timings = getTimings([]);
+        assert.equal(timings.sampleCount, 0);
+        assert.ok(Number.isNaN(timings.medianTime));
+        assert.deepEqual(timings.histogram, []);
+    });
+});
+
+describe('nextIterationCount', () => {
+    const config: BenchmarkConfig = { name: 'test', fn: () => 0, maxTime: 30 };
+
+    function createState(overrides: Partial<BenchmarkState>): BenchmarkState {
+        return {
+            config,
+            timings: { ...getTimings([0.009, 0.011]), relativeMarginOfError: 0.1 },
+            cycles: 1,
+            iterationCount: 100,
+            elapsedTime: 1,
+            elapsedNetTime: 1,
+            elapsedTimeForInitialSetUp: 0,
+            elapsedCycleGrossTime: 1,
+            elapsedIterationTime: 1,
+            ...overrides,
+        };
+    }
+
+    test('starts with the initial count', () => {
+        assert.equal(nextIterationCount(createState({ cycles: 0 })), 1);
+        assert.equal(
+            nextIterationCount(createState({ cycles: 0, config: { ...config, initialCount: 5 } })),
+            5,
+        );
+    });
+
+    test('aims for the target cycle time', () => {
+        // 0.01 seconds per iteration, 3 seconds per cycle
+        assert.equal(nextIterationCount(createState({})), 300);
+    });
+
+    test('shortens the cycle towards the end of the max time', () => {
+        // 1.1 seconds left, divided by the error factor of 1.1
+        const state = createState({
+            elapsedTime: 28.9,
+            elapsedCycleGrossTime: 28.9,
+            iterationCount: 2890,
+        });
+        assert.equal(nextIterationCount(state), 100);
+    });
+
+    test('does not count the initial set-up towards the max time', () => {
+        assert.equal(nextIterationCount(createState({ elapsedTime: 30 })), 0);
+        const state = createState({
+            elapsedTime: 30,
+            elapsedTimeForInitialSetUp: 10,
+            elapsedCycleGrossTime: 20,
+            iterationCount: 2000,
+        });
+        assert.equal(nextIterationCount(state), 300);
+    });
+
+    test('stops when the margin of error is small enough', () => {
+        const timings = { ...getTimings([0.01, 0.01]), relativeMarginOfError: 0.01 };
+        assert.equal(nextIterationCount(createState({ timings })), 0);
+    });
+
+    test('stops if there is no time left for the set-up of another cycle', () => {
+        // 1 second of set-up per cycle, but only 0.5 seconds left
+        const state = createState({ elapsedTime: 29.5, elapsedCycleGrossTime: 0.5, cycles: 29 });
+        assert.equal(nextIterationCount(state), 0);
+    });
+});
+
+describe('benchmark', () => {
+    test('is deterministic with a fake clock', async () => {
+        const run = () => {
+            const clock = new FakeClock();
+            return benchmark({
+                name: 'test',
+                fn: createFakeFn(clock, [0.009, 0.011, 0.01]),
+                clock: clock.time,
+            });
+        };
+        const first = await run();
+        const second = await run();
+        assert.deepEqual(first.samples, second.samples);
+        assert.equal(first.cycles, second.cycles);
+        assert.ok(first.relativeMarginOfError < 0.02);
+        assert.ok(Math.abs(first.meanTime - 0.01) < 0.0005);
+        assert.equal(
+            first.iterationCount,
+            first.cycleDetails.reduce((sum, cycle) => sum + cycle.iterationCount, 0),
+        );
+    });
+
+    test('stops at the max time', async () => {
+        const clock = new FakeClock();
+        const result = await benchmark({
+            name: 'test',
+            // so much variance that the margin of error does not get small enough in time
+            fn: createFakeFn(clock, [0.001, 0.019]),
+            clock: clock.time,
+            maxTime: 2,
+        });
+        // the iteration count of the last cycle is rounded, so it can overshoot by an iteration
+        assert.ok(result.elapsedTime < 2.05, `took ${result.elapsedTime} seconds`);
+        assert.ok(result.elapsedTime > 1.9, `took ${result.elapsedTime} seconds`);
+    });
+
+    test('does not count beforeAll towards the max time', async () => {
+        const clock = new FakeClock();
+        const result = await benchmark({
+            name: 'test',
+            fn: createFakeFn(clock, [0.001, 0.019]),
+            beforeAll: async () => clock.advance(5),
+            clock: clock.time,
+            maxTime: 2,
+        });
+        assert.ok(result.elapsedTime > 6.9, `took ${result.elapsedTime} seconds`);
+        assert.ok(result.setUpTime >= 5);
+    });
+
+    test('tells in which cycle and iteration fn failed', async () => {
+        const clock = new FakeClock();
+        const fakeFn = createFakeFn(clock, [0.01]);
+        const failure = new Error('query failed');
+        let calls = 0;
+        const error = await benchmark({
+            name: 'test',
+            fn: () => (++calls === 3 ? Promise.reject(failure) : fakeFn()),
+            clock: clock.time,
+        }).catch((err) => err);
+        assert.ok(error instanceof BenchmarkIterationError);
+        assert.equal(error.benchmarkName, 'test');
+        // the first cycle has one iteration, so the third call is the second one of cycle 1
+        assert.equal(error.cycle, 1);
+        assert.equal(error.iteration, 1);
+        assert.equal(error.cause, failure);
+    });
+
+    test('stops starting iterations after a failure in concurrent mode', async () => {
+        const clock = new FakeClock();
+        const fakeFn = createFakeFn(clock, [0.01]);
+        let calls = 0;
+        const error = await benchmark({
+            name: 'test',
+            fn: () => (++calls === 10 ? Promise.reject(new Error('query failed')) : fakeFn()),
+            clock: clock.time,
+            initialCount: 100,
+            concurrency: 4,
+        }).catch((err) => err);
+        assert.ok(error instanceof BenchmarkIterationError);
+        assert.equal(error.cycle, 0);
+        assert.equal(error.iteration, 9);
+        // the other workers finish the iteration they are in
+        assert.ok(calls < 14, `${calls} calls`);
+    });
+
+    test('stores the snapshot', async () => {
+        const clock = new FakeClock();
+        const result = await benchmark({
+            name: 'test',
+            fn: createFakeFn(clock, [0.009, 0.011]),
+            clock: clock.time,
+            captureSnapshot: async () => ({ segments: 3 }),
+        });
+        assert.deepEqual(result.snapshots, [{ segments: 3 }]);
+    });
+});
+
+describe('BenchmarkResult.add', () => {
+    test('combines the samples and counts', async () => {
+        const clock = new FakeClock();
+        const config = { name: 'test', fn: createFakeFn(clock, [0.009, 0.011]), clock: clock.time };
+        const first = await benchmark(config);
+        const second = await benchmark(config);
+        const sum = BenchmarkResult.add(first, second);
+        assert.deepEqual(sum.samples, [...first.samples, ...second.samples]);
+        assert.equal(sum.cycles, first.cycles + second.cycles);
+        assert.equal(sum.iterationCount, first.iterationCount + second.iterationCount);
+        assert.equal(sum.elapsedTime, first.elapsedTime + second.elapsedTime);
+    });
+});
+
+describe('BenchmarkRun', () => {
+    test('does not count the time of other runs towards its max time', async () => {
+        const clock = new FakeClock();
+        const createRun = () =>
+            new BenchmarkRun({
+                name: 'test',
+                fn: createFakeFn(clock, [0.001, 0.019]),
+                clock: clock.time,
+                maxTime: 2,
+            });
+        const runs = [createRun(), createRun()];
+        for (const run of runs) {
+            await run.start();
+        }
+        while (runs.some((run) => !run.isDone)) {
+            for (const run of runs.filter((run) => !run.isDone)) {
+                await run.runCycle();
+            }
+        }
+        for (const run of runs) {
+            const result = await run.finish();
+            assert.ok(result.elapsedTime > 1.9, `took ${result.elapsedTime} seconds`);
+            assert.ok(result.elapsedTime < 2.05, `took ${result.elapsedTime} seconds`);
+        }
+        assert.ok(clock.time() > 3.8);
+    });
+});
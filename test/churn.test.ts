@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { ChurnStore, planChurnStep, runChurn } from '../lib/churn.ts';
+import { generateDocument, getDatasetProfile } from '../lib/datasets.ts';
+import { Random } from '../lib/random.ts';
+import { FakeDatabase } from './fake-arango.ts';
+
+describe('planChurnStep', () => {
+    test('corrects towards the target size', () => {
+        const random = new Random(1);
+        const workload = { distribution: 'uniform', insertRatio: 1, targetSize: 1000 } as const;
+        const shrinking = planChurnStep(random, workload, 5000);
+        assert.ok(shrinking.removals > shrinking.inserts);
+        const growing = planChurnStep(random, workload, 0);
+        assert.ok(growing.inserts > growing.removals);
+    });
+
+    test('is reproducible', () => {
+        const workload = { distribution: 'bursty', insertRatio: 2 } as const;
+        const plan = (seed: number) => {
+            const random = new Random(seed);
+            return Array.from({ length: 10 }, () => planChurnStep(random, workload, 0));
+        };
+        assert.deepEqual(plan(7), plan(7));
+    });
+});
+
+describe('runChurn', () => {
+    test('inserts and removes documents', async () => {
+        const collection = new FakeDatabase().collection('perf');
+        const random = new Random(1);
+        const profile = getDatasetProfile('tokens')!;
+        const store: ChurnStore = {
+            insert: async (count) =>
+                collection.insert(
+                    Array.from({ length: count }, () => generateDocument(profile, random)),
+                ).length,
+            remove: async (count) =>
+                collection.remove(collection.documents.slice(0, count).map((doc) => doc._key)),
+            count: async () => (await collection.count()).count,
+        };
+        const stats = await runChurn(store, {
+            distribution: 'uniform',
+            insertRatio: 2,
+            random: new Random(2),
+            operations: 5,
+            rate: 1000,
+            quiet: true,
+        });
+        assert.equal(stats.steps, 5);
+        assert.equal(stats.documentCount, stats.totalInserts - stats.totalRemovals);
+        assert.equal(stats.documentCount, (await collection.count()).count);
+    });
+});
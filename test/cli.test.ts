@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseCommandLine, UsageError } from '../lib/cli.ts';
+
+function usageError(pattern: RegExp) {
+    return (err: unknown) => err instanceof UsageError && pattern.test(err.message);
+}
+
+describe('parseCommandLine', () => {
+    test('returns undefined for --help', () => {
+        assert.equal(parseCommandLine(['--help']), undefined);
+    });
+
+    test('uses the defaults if no options are given', () => {
+        const options = parseCommandLine(['churn'])!;
+        assert.equal(options.command, 'churn');
+        assert.equal(options.retries, 0);
+        assert.equal(options.warmUpRounds, 0);
+        assert.equal(options.seed, undefined);
+        assert.equal(options.duration, undefined);
+    });
+
+    test('allows underscores in numbers', () => {
+        assert.equal(parseCommandLine(['setup', '--docs', '1_000_000'])!.documentCount, 1_000_000);
+    });
+
+    test('rejects empty numeric values', () => {
+        for (const option of ['--seed', '--docs', '--duration', '--retries', '--warm-up-rounds']) {
+            assert.throws(
+                () => parseCommandLine(['churn', option, '']),
+                usageError(new RegExp(`^${option} must be .*, got ""$`)),
+            );
+            assert.throws(
+                () => parseCommandLine(['churn', option, ' ']),
+                usageError(new RegExp(`^${option} must be `)),
+            );
+        }
+    });
+
+    test('accepts --retries 0 and --warm-up-rounds 0', () => {
+        const options = parseCommandLine(['churn', '--retries', '0', '--warm-up-rounds', '0'])!;
+        assert.equal(options.retries, 0);
+        assert.equal(options.warmUpRounds, 0);
+    });
+
+    test('rejects 0 for positive options', () => {
+        assert.throws(
+            () => parseCommandLine(['churn', '--rounds', '0']),
+            usageError(/^--rounds must be a positive number/),
+        );
+        assert.throws(
+            () => parseCommandLine(['setup', '--docs', '0']),
+            usageError(/^--docs must be a positive number/),
+        );
+    });
+
+    test('rejects negative and fractional counts', () => {
+        assert.throws(
+            () => parseCommandLine(['churn', '--retries=-1']),
+            usageError(/^--retries must be a non-negative integer/),
+        );
+        assert.throws(
+            () => parseCommandLine(['churn', '--warm-up-rounds', '1.5']),
+            usageError(/^--warm-up-rounds must be a non-negative integer/),
+        );
+        assert.throws(
+            () => parseCommandLine(['setup', '--batch-size', '2.5']),
+            usageError(/^--batch-size must be an integer/),
+        );
+    });
+
+    test('accepts seeds between 0 and 2^32 - 1', () => {
+        assert.equal(parseCommandLine(['churn', '--seed', '0'])!.seed, 0);
+        assert.equal(parseCommandLine(['churn', '--seed', String(2 ** 32 - 1)])!.seed, 2 ** 32 - 1);
+    });
+
+    test('rejects out-of-range seeds', () => {
+        for (const seed of ['-1', String(2 ** 32), '1.5', 'abc']) {
+            assert.throws(
+                () => parseCommandLine(['churn', `--seed=${seed}`]),
+                usageError(/^--seed must be an integer between 0 and 2\^32 - 1/),
+            );
+        }
+    });
+
+    test('parses ascending checkpoints', () => {
+        const options = parseCommandLine(['sweep', '--checkpoints', '1000, 10_000,100000'])!;
+        assert.deepEqual(options.checkpoints, [1000, 10_000, 100_000]);
+    });
+
+    test('rejects descending or repeated checkpoints', () => {
+        for (const checkpoints of ['10000,1000', '1000,1000']) {
+            assert.throws(
+                () => parseCommandLine(['sweep', '--checkpoints', checkpoints]),
+                usageError(/^--checkpoints must be in ascending order/),
+            );
+        }
+    });
+
+    test('rejects empty checkpoints', () => {
+        assert.throws(
+            () => parseCommandLine(['sweep', '--checkpoints', '1000,,10000']),
+            usageError(/^--checkpoints must be a positive number, got ""/),
+        );
+    });
+
+    test('rejects unknown commands', () => {
+        assert.throws(() => parseCommandLine(['nope']), usageError(/Unknown command "nope"/));
+    });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { CollectionStore } from '../lib/collection-store.ts';
+import { getDatasetProfile } from '../lib/datasets.ts';
+import { Random } from '../lib/random.ts';
+import { measureWrite } from '../lib/write-workloads.ts';
+import { FakeDatabase } from './fake-arango.ts';
+
+function setUp() {
+    const database = new FakeDatabase();
+    const collection = database.collection('perf');
+    const store = new CollectionStore(
+        database.asDatabase(),
+        collection.asCollection(),
+        getDatasetProfile('tokens')!,
+        new Random(1),
+        new Random(2),
+    );
+    return { collection, store };
+}
+
+describe('CollectionStore', () => {
+    test('inserts generated documents', async () => {
+        const { collection, store } = setUp();
+        assert.equal(await store.insert(10), 10);
+        assert.equal(await store.count(), 10);
+        assert.ok(collection.documents.every((doc) => typeof doc.field1 === 'string'));
+    });
+
+    test('removes documents above a random gauge', async () => {
+        const { collection, store } = setUp();
+        await store.insert(100);
+        const removed = await store.remove(10);
+        assert.ok(removed > 0 && removed <= 10, `removed ${removed} documents`);
+        assert.equal(await store.count(), 100 - removed);
+        assert.equal(collection.documents.length, 100 - removed);
+    });
+
+    test('updates documents but keeps their keys and gauges', async () => {
+        const { collection, store } = setUp();
+        await store.insert(100);
+        const before = new Map(collection.documents.map((doc) => [doc._key, doc]));
+        const updated = await store.update(10);
+        assert.ok(updated > 0 && updated <= 10, `updated ${updated} documents`);
+        const changed = collection.documents.filter(
+            (doc) => doc.field1 !== before.get(doc._key)!.field1,
+        );
+        assert.equal(changed.length, updated);
+        assert.ok(changed.every((doc) => doc.gauge === before.get(doc._key)!.gauge));
+        assert.equal(await store.count(), 100);
+    });
+
+    test('can be measured by measureWrite', async () => {
+        const { store } = setUp();
+        for (const operation of ['insert', 'update', 'remove'] as const) {
+            const duration = await measureWrite(store, operation, 10);
+            assert.ok(duration >= 0, `${operation} took ${duration}`);
+        }
+        assert.ok((await store.count()) < 10);
+    });
+});
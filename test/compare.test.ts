@@ -0,0 +1,260 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { BenchmarkConfig } from '../lib/async-bench.ts';
+import { CandidateError, compare, runComparison, ScheduledCycle } from '../lib/compare.ts';
+import { Random } from '../lib/random.ts';
+import { createFakeFn, FakeClock } from './fake-clock.ts';
+
+const FAST_DURATIONS = [0.009, 0.011, 0.01, 0.0095, 0.0105];
+const SLOW_DURATIONS = FAST_DURATIONS.map((duration) => duration * 2);
+
+function createCandidate(
+    clock: FakeClock,
+    name: string,
+    durations: ReadonlyArray<number>,
+): BenchmarkConfig {
+    return { name, fn: createFakeFn(clock, durations), clock: clock.time, maxTime: 5 };
+}
+
+describe('compare', () => {
+    const fast = Array.from({ length: 10 }, (_, i) => 1 + i * 0.01);
+    const slow = fast.map((sample) => sample + 1);
+
+    test('tells which samples are faster', () => {
+        assert.equal(compare(fast, slow), 1);
+        assert.equal(compare(slow, fast), -1);
+    });
+
+    test('is indeterminate for overlapping samples', () => {
+        assert.equal(compare(fast, [...fast].reverse()), 0);
+        assert.equal(compare(fast, fast), 0);
+    });
+
+    test('uses the normal approximation for large samples', () => {
+        const largeFast = Array.from({ length: 50 }, (_, i) => 1 + i * 0.01);
+        const largeSlow = largeFast.map((sample) => sample + 0.3);
+        assert.equal(compare(largeFast, largeSlow), 1);
+        assert.equal(compare(largeSlow, largeFast), -1);
+        assert.equal(
+            compare(
+                largeFast,
+                largeFast.map((sample) => sample + 0.001),
+            ),
+            0,
+        );
+    });
+});
+
+describe('runComparison', () => {
+    test('ranks the candidates and determines the overhead', async () => {
+        const clock = new FakeClock();
+        const { candidates, failedCandidates } = await runComparison([
+            createCandidate(clock, 'slow', SLOW_DURATIONS),
+            createCandidate(clock, 'fast', FAST_DURATIONS),
+        ]);
+        assert.deepEqual(failedCandidates, []);
+        assert.deepEqual(
+            candidates.map((c) => [c.config.name, c.isFastest]),
+            [
+                ['fast', true],
+                ['slow', false],
+            ],
+        );
+        const [fast, slow] = candidates;
+        assert.equal(fast.overheadMax, 0);
+        assert.ok(slow.overheadMin > 0);
+        assert.ok(slow.overheadMin <= slow.overheadMax);
+        // the slow candidate takes twice as long
+        assert.ok(slow.relativeOverheadMin > 0.5 && slow.relativeOverheadMax < 1.5);
+        assert.equal(fast.statistics, undefined);
+        const { medianRatio, effectSize } = slow.statistics!;
+        assert.ok(medianRatio.lower > 1.5 && medianRatio.upper < 2.5, `${medianRatio.estimate}`);
+        assert.equal(effectSize, 'large');
+    });
+
+    test('considers indistinguishable candidates both fastest', async () => {
+        const clock = new FakeClock();
+        const { candidates } = await runComparison([
+            createCandidate(clock, 'a', FAST_DURATIONS),
+            createCandidate(clock, 'b', FAST_DURATIONS),
+        ]);
+        assert.deepEqual(
+            candidates.map((c) => c.isFastest),
+            [true, true],
+        );
+    });
+
+    test('gives up failing candidates without affecting the others', async () => {
+        const clock = new FakeClock();
+        const errors: Array<[string, CandidateError, boolean]> = [];
+        const { candidates, failedCandidates } = await runComparison(
+            [
+                createCandidate(clock, 'fast', FAST_DURATIONS),
+                {
+                    ...createCandidate(clock, 'broken', FAST_DURATIONS),
+                    fn: () => Promise.reject(new Error('view not found')),
+                },
+                createCandidate(clock, 'slow', SLOW_DURATIONS),
+            ],
+            undefined,
+            { onError: (config, error, willRetry) => errors.push([config.name, error, willRetry]) },
+        );
+        assert.deepEqual(
+            candidates.map((c) => c.config.name),
+            ['fast', 'slow'],
+        );
+        assert.equal(failedCandidates.length, 1);
+        const [failed] = failedCandidates;
+        assert.equal(failed.config.name, 'broken');
+        // it is not run again in later rounds
+        assert.equal(failed.errors.length, 1);
+        assert.equal(failed.errors[0].message, 'view not found');
+        assert.equal(failed.errors[0].round, 0);
+        assert.equal(failed.errors[0].cycle, 0);
+        assert.equal(failed.errors[0].iteration, 0);
+        assert.deepEqual(
+            errors.map(([name, , willRetry]) => [name, willRetry]),
+            [['broken', false]],
+        );
+    });
+
+    test('reports the errors of successful retries', async () => {
+        const clock = new FakeClock();
+        const fakeFn = createFakeFn(clock, FAST_DURATIONS);
+        let calls = 0;
+        const { candidates, failedCandidates } = await runComparison(
+            [
+                {
+                    ...createCandidate(clock, 'flaky', FAST_DURATIONS),
+                    fn: () => (++calls === 2 ? Promise.reject(new Error('timeout')) : fakeFn()),
+                },
+            ],
+            undefined,
+            { retries: 1 },
+        );
+        assert.deepEqual(failedCandidates, []);
+        assert.equal(candidates.length, 1);
+        assert.deepEqual(
+            candidates[0].retriedErrors?.map((e) => e.message),
+            ['timeout'],
+        );
+    });
+
+    test('only retries the errors shouldRetry accepts', async () => {
+        const clock = new FakeClock();
+        const { candidates, failedCandidates } = await runComparison(
+            [
+                {
+                    ...createCandidate(clock, 'broken', FAST_DURATIONS),
+                    fn: () => Promise.reject(new Error('syntax error')),
+                },
+            ],
+            undefined,
+            { retries: 3, shouldRetry: (err) => (err as Error).message === 'timeout' },
+        );
+        assert.deepEqual(candidates, []);
+        assert.equal(failedCandidates[0].errors.length, 1);
+    });
+
+    test('compares with the baseline', async () => {
+        const clock = new FakeClock();
+        const { candidates } = await runComparison(
+            [createCandidate(clock, 'view', FAST_DURATIONS)],
+            undefined,
+            {
+                baseline: {
+                    name: 'before',
+                    candidates: [
+                        {
+                            name: 'view',
+                            meanTime: 0.02,
+                            relativeMarginOfError: 0.01,
+                            samples: Array.from({ length: 30 }, (_, i) => SLOW_DURATIONS[i % 5]),
+                        },
+                    ],
+                },
+            },
+        );
+        const baseline = candidates[0].baseline;
+        assert.equal(baseline?.verdict, 'improvement');
+        assert.ok(baseline.overheadMax < 0);
+    });
+
+    test('discards the samples of the warm-up rounds', async () => {
+        const clock = new FakeClock();
+        const { candidates, schedule } = await runComparison(
+            [
+                createCandidate(clock, 'a', FAST_DURATIONS),
+                createCandidate(clock, 'b', FAST_DURATIONS),
+            ],
+            undefined,
+            { rounds: 2, warmUpRounds: 1 },
+        );
+        const rounds = new Set(schedule.map((c) => c.round));
+        assert.deepEqual(Array.from(rounds), [0, 1, 2]);
+        assert.ok(schedule.filter((c) => c.round === 0).every((c) => c.isWarmUp));
+        assert.ok(schedule.filter((c) => c.round > 0).every((c) => !c.isWarmUp));
+        for (const candidate of candidates) {
+            const cycles = schedule.filter(
+                (c) => !c.isWarmUp && c.candidate === candidate.config.name,
+            );
+            assert.equal(candidate.benchmark.cycles, cycles.length);
+        }
+    });
+});
+
+describe('scheduling', () => {
+    async function getSchedule(
+        scheduling: 'sequential' | 'round-robin' | 'random',
+        random?: Random,
+    ): Promise<ScheduledCycle[]> {
+        const clock = new FakeClock();
+        const { schedule } = await runComparison(
+            ['a', 'b', 'c'].map((name) => createCandidate(clock, name, FAST_DURATIONS)),
+            undefined,
+            { scheduling, random, rounds: 2 },
+        );
+        return schedule;
+    }
+
+    /**
+     * The candidates in the order they ran, with consecutive cycles of the same candidate merged
+     */
+    function getOrder(schedule: ReadonlyArray<ScheduledCycle>, round: number) {
+        return schedule
+            .filter((c) => c.round === round)
+            .map((c) => c.candidate)
+            .filter((candidate, i, candidates) => candidate !== candidates[i - 1])
+            .join('');
+    }
+
+    test('runs one candidate after another in sequential mode', async () => {
+        const schedule = await getSchedule('sequential');
+        assert.equal(getOrder(schedule, 0), 'abc');
+        assert.equal(getOrder(schedule, 1), 'abc');
+    });
+
+    test('lets the candidates take turns in round-robin mode', async () => {
+        const schedule = await getSchedule('round-robin');
+        assert.ok(getOrder(schedule, 0).startsWith('abcabc'));
+        // the next round starts with the next candidate
+        assert.ok(getOrder(schedule, 1).startsWith('bcabca'));
+        for (const round of [0, 1]) {
+            for (const candidate of ['a', 'b', 'c']) {
+                const cycles = schedule
+                    .filter((c) => c.round === round && c.candidate === candidate)
+                    .map((c) => c.cycle);
+                assert.deepEqual(
+                    cycles,
+                    cycles.map((_, i) => i),
+                );
+            }
+        }
+    });
+
+    test('interleaves the candidates randomly, reproducible by the seed', async () => {
+        const schedule = await getSchedule('random', new Random(1));
+        assert.ok(getOrder(schedule, 0).length > 3);
+        assert.deepEqual(await getSchedule('random', new Random(1)), schedule);
+    });
+});
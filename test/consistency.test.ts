@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { checkViewConsistency, sampleDocuments } from '../lib/consistency.ts';
+import { generateDocument, getDatasetProfile } from '../lib/datasets.ts';
+import { Random } from '../lib/random.ts';
+import { FakeDatabase } from './fake-arango.ts';
+
+function setUp() {
+    const database = new FakeDatabase();
+    const collection = database.collection('perf');
+    const random = new Random(1);
+    const profile = getDatasetProfile('tokens')!;
+    collection.insert(Array.from({ length: 100 }, () => generateDocument(profile, random)));
+    const view = database.createView('perf_view', collection, { manualCommit: true });
+    return { database, collection, view };
+}
+
+describe('sampleDocuments', () => {
+    test('picks distinct documents of the collection', async () => {
+        const { database, collection } = setUp();
+        const sample = await sampleDocuments(
+            database.asDatabase(),
+            collection.asCollection(),
+            new Random(2),
+            20,
+        );
+        assert.ok(sample.length > 10 && sample.length <= 20, `${sample.length} documents`);
+        assert.equal(new Set(sample.map((doc) => doc._key)).size, sample.length);
+        const keys = new Set(collection.documents.map((doc) => doc._key));
+        assert.ok(sample.every((doc) => keys.has(doc._key as string)));
+    });
+});
+
+describe('checkViewConsistency', () => {
+    test('accepts a view that matches the collection after a commit', async () => {
+        const { database, collection, view } = setUp();
+        const [removed, ...present] = collection.documents.slice(0, 10);
+        collection.remove([removed._key]);
+        const report = await checkViewConsistency(
+            database.asDatabase(),
+            collection.asCollection(),
+            view.asView(),
+            { present, absent: [removed] },
+        );
+        assert.equal(report.isConsistent, true);
+        assert.equal(report.viewCount, 99);
+        assert.equal(report.collectionCount, 99);
+    });
+
+    test('reports missing and phantom documents', async () => {
+        const { database, collection, view } = setUp();
+        const [removed, ...others] = collection.documents;
+        const missing = others.find((doc) => doc.category !== removed.category)!;
+        const present = others.filter((doc) => doc !== missing).slice(0, 8);
+        collection.remove([removed._key]);
+        view.simulatePhantomDocument(removed);
+        view.simulateMissingDocument(missing._key);
+        const report = await checkViewConsistency(
+            database.asDatabase(),
+            collection.asCollection(),
+            view.asView(),
+            { present: [missing, ...present], absent: [removed] },
+        );
+        assert.equal(report.isConsistent, false);
+        assert.deepEqual(report.missing, [missing.field1]);
+        assert.deepEqual(report.phantoms, [removed.field1]);
+        // one document too few, one too many
+        assert.equal(report.viewCount, report.collectionCount);
+        assert.deepEqual(
+            report.categoryMismatches.map((c) => c.category).sort(),
+            [removed.category, missing.category].sort(),
+        );
+    });
+
+    test('reports categories that only the view contains', async () => {
+        const { database, collection, view } = setUp();
+        const [phantom] = collection.documents;
+        const categoryDocuments = collection.documents.filter(
+            (doc) => doc.category === phantom.category,
+        );
+        collection.remove(categoryDocuments.map((doc) => doc._key));
+        view.simulatePhantomDocument(phantom);
+        const report = await checkViewConsistency(
+            database.asDatabase(),
+            collection.asCollection(),
+            view.asView(),
+            { present: [], absent: [] },
+        );
+        assert.deepEqual(report.categoryMismatches, [
+            { category: phantom.category, collectionCount: 0, viewCount: 1 },
+        ]);
+    });
+});
@@ -0,0 +1,510 @@
+import { Database } from 'arangojs';
+import { AqlQuery } from 'arangojs/aql';
+import { DocumentCollection } from 'arangojs/collections';
+import { View } from 'arangojs/views';
+import { Document } from '../lib/datasets.ts';
+import { FakeClock } from './fake-clock.ts';
+
+/**
+ * The simulated execution time of a search, in seconds
+ */
+const DEFAULT_SEARCH_TIME = 0.001;
+
+/**
+ * The simulated size of a document in the index, in bytes
+ */
+const INDEXED_DOCUMENT_SIZE = 100;
+
+export type FakeDocument = Document & { readonly _key: string };
+
+type Scope = Readonly<Record<string, unknown>>;
+
+interface QueryContext {
+    readonly bindVars: Readonly<Record<string, unknown>>;
+    readonly scope: Scope;
+    readonly stats: {
+        executionTime: number;
+        scannedIndex: number;
+        scannedFull: number;
+        writesExecuted: number;
+    };
+}
+
+/**
+ * Thrown for queries the stand-in does not understand
+ */
+export class UnsupportedQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnsupportedQueryError';
+    }
+}
+
+/**
+ * An in-memory collection. Documents get ascending keys if they have none.
+ */
+export class FakeCollection {
+    readonly isArangoCollection = true;
+    private readonly documentMap = new Map<string, FakeDocument>();
+    private nextKey = 1;
+
+    constructor(readonly name: string, private readonly database: FakeDatabase) {}
+
+    get documents(): FakeDocument[] {
+        return Array.from(this.documentMap.values());
+    }
+
+    insert(documents: ReadonlyArray<Document>): FakeDocument[] {
+        return documents.map((document) => {
+            const stored = { ...document, _key: String(document._key ?? this.nextKey++) };
+            this.documentMap.set(stored._key, stored);
+            return stored;
+        });
+    }
+
+    /**
+     * Returns the number of documents that were actually removed
+     */
+    remove(keys: ReadonlyArray<string>): number {
+        return keys.filter((key) => this.documentMap.delete(key)).length;
+    }
+
+    /**
+     * Merges the values into the document with the key. Returns false if there is none.
+     */
+    update(key: string, values: Partial<Document>): boolean {
+        const document = this.documentMap.get(key);
+        if (!document) {
+            return false;
+        }
+        this.documentMap.set(key, { ...document, ...values, _key: key });
+        return true;
+    }
+
+    async count() {
+        return { count: this.documentMap.size };
+    }
+
+    /**
+     * Returns the links of the views to this collection, with their figures
+     */
+    async indexes() {
+        return this.database.views
+            .filter((view) => view.collection === this)
+            .map((view) => ({ type: 'arangosearch', view: view.name, figures: view.figures }));
+    }
+
+    asCollection(): DocumentCollection {
+        return this as unknown as DocumentCollection;
+    }
+}
+
+export interface FakeViewOptions {
+    /**
+     * If set, changes only become visible when commit() is called or a query uses waitForSync.
+     * Otherwise, every query sees the current documents of the collection.
+     */
+    readonly manualCommit?: boolean;
+
+    /**
+     * The simulated execution time of each search, in seconds, or a function that returns it
+     */
+    readonly searchTime?: number | (() => number);
+}
+
+/**
+ * An arangosearch view that indexes all documents of one collection
+ */
+export class FakeView {
+    readonly isArangoView = true;
+    private committed: FakeDocument[] = [];
+    private readonly missingKeys = new Set<string>();
+    private readonly phantoms: FakeDocument[] = [];
+
+    constructor(
+        readonly name: string,
+        readonly collection: FakeCollection,
+        private readonly options: FakeViewOptions = {},
+    ) {}
+
+    /**
+     * Makes the current documents of the collection visible
+     */
+    commit() {
+        this.committed = this.collection.documents;
+    }
+
+    /**
+     * Makes the view lose a document, i.e. it does not find it even after a commit
+     */
+    simulateMissingDocument(key: string) {
+        this.missingKeys.add(key);
+    }
+
+    /**
+     * Makes the view keep a document, i.e. it still finds it after the document has been removed
+     */
+    simulatePhantomDocument(document: FakeDocument) {
+        this.phantoms.push(document);
+    }
+
+    getDocuments({ waitForSync = false } = {}): FakeDocument[] {
+        if (!this.options.manualCommit || waitForSync) {
+            this.commit();
+        }
+        const keys = new Set(this.committed.map((document) => document._key));
+        return [
+            ...this.committed.filter((document) => !this.missingKeys.has(document._key)),
+            ...this.phantoms.filter((document) => !keys.has(document._key)),
+        ];
+    }
+
+    getSearchTime() {
+        const { searchTime = DEFAULT_SEARCH_TIME } = this.options;
+        return typeof searchTime === 'function' ? searchTime() : searchTime;
+    }
+
+    get figures() {
+        const numDocs = this.getDocuments().length;
+        return {
+            numDocs,
+            numLiveDocs: numDocs,
+            numPrimaryDocs: numDocs,
+            numSegments: numDocs ? 1 : 0,
+            numFiles: numDocs ? 1 : 0,
+            indexSize: numDocs * INDEXED_DOCUMENT_SIZE,
+        };
+    }
+
+    async properties() {
+        return { name: this.name, type: 'arangosearch' };
+    }
+
+    asView(): View {
+        return this as unknown as View;
+    }
+}
+
+class FakeCursor<T> {
+    constructor(private readonly items: T[], readonly extra: Record<string, any>) {}
+
+    async all(): Promise<T[]> {
+        return [...this.items];
+    }
+}
+
+export interface FakeDatabaseOptions {
+    /**
+     * If set, every query advances the clock by its simulated execution time
+     */
+    readonly clock?: FakeClock;
+}
+
+/**
+ * An in-process stand-in for the parts of the arangojs Database the benchmark harness uses
+ *
+ * Understands the AQL of the lib modules: searches in views by equality and STARTS_WITH, the
+ * lookup of documents by gauge, counting by category, the subqueries of the consistency check and
+ * the inserts, removals and updates of the write workloads. Throws an UnsupportedQueryError for
+ * anything else. The execution time of a query is the simulated time of its searches. Like on a
+ * real server, the phases are only reported with profile level 1 and the node statistics only with
+ * level 2.
+ */
+export class FakeDatabase {
+    private readonly collectionMap = new Map<string, FakeCollection>();
+    private readonly viewMap = new Map<string, FakeView>();
+
+    constructor(private readonly options: FakeDatabaseOptions = {}) {}
+
+    get views(): FakeView[] {
+        return Array.from(this.viewMap.values());
+    }
+
+    collection(name: string): FakeCollection {
+        let collection = this.collectionMap.get(name);
+        if (!collection) {
+            collection = new FakeCollection(name, this);
+            this.collectionMap.set(name, collection);
+        }
+        return collection;
+    }
+
+    createView(name: string, collection: FakeCollection, options?: FakeViewOptions): FakeView {
+        const view = new FakeView(name, collection, options);
+        this.viewMap.set(name, view);
+        return view;
+    }
+
+    view(name: string): FakeView {
+        const view = this.viewMap.get(name);
+        if (!view) {
+            throw new Error(`View ${name} does not exist`);
+        }
+        return view;
+    }
+
+    /**
+     * There is no metrics API, so the telemetry falls back to the figures
+     */
+    route(path: string) {
+        return {
+            get: async () => {
+                throw new Error(`${path} is not available`);
+            },
+        };
+    }
+
+    async query<T = any>(
+        query: AqlQuery,
+        { profile = 0 }: { profile?: number } = {},
+    ): Promise<FakeCursor<T>> {
+        const context: QueryContext = {
+            bindVars: query.bindVars,
+            scope: {},
+            stats: { executionTime: 0, scannedIndex: 0, scannedFull: 0, writesExecuted: 0 },
+        };
+        const items = this.execute(query.query.replace(/\s+/g, ' ').trim(), context) as T[];
+        const { executionTime, scannedIndex, scannedFull, writesExecuted } = context.stats;
+        this.options.clock?.advance(executionTime);
+        const nodes = [{ id: 1, calls: 1, items: items.length, filter: 0, runtime: executionTime }];
+        return new FakeCursor(items, {
+            ...(profile >= 1 ? { profile: { executing: executionTime } } : {}),
+            stats: {
+                executionTime,
+                scannedIndex,
+                scannedFull,
+                writesExecuted,
+                filtered: 0,
+                peakMemoryUsage: 0,
+                ...(profile >= 2 ? { nodes } : {}),
+            },
+            plan: { nodes: [{ id: 1, type: 'EnumerateViewNode' }] },
+        });
+    }
+
+    asDatabase(): Database {
+        return this as unknown as Database;
+    }
+
+    private execute(text: string, context: QueryContext): unknown[] {
+        const search = text.match(
+            /^FOR (\w+) IN (@@\w+)(?: SEARCH (.+?))?(?: OPTIONS \{ ?(.*?) ?\})?(?: LIMIT (\S+))? (?:COLLECT WITH COUNT INTO \w+ RETURN \w+|RETURN (.+))$/i,
+        );
+        if (search) {
+            const [, variable, name, condition, options, limit, returnValue] = search;
+            const view = this.view(String(context.bindVars[name.slice(1)]));
+            let documents = view
+                .getDocuments({ waitForSync: /waitForSync: true/i.test(options ?? '') })
+                .filter((document) =>
+                    condition ? this.matches(condition, variable, document, context) : true,
+                );
+            context.stats.executionTime += view.getSearchTime();
+            context.stats.scannedIndex += documents.length;
+            if (limit) {
+                documents = documents.slice(0, Number(this.resolve(limit, context)));
+            }
+            if (returnValue === undefined) {
+                return [documents.length];
+            }
+            return documents.map((document) =>
+                this.resolve(returnValue, {
+                    ...context,
+                    scope: { ...context.scope, [variable]: document },
+                }),
+            );
+        }
+
+        const byGauge = text.match(
+            /^FOR (\w+) IN (@@\w+) FILTER \1\.gauge > (\S+) SORT \1\.gauge ASC LIMIT (?:0, )?(\S+) (?:RETURN (\S+)|REMOVE \1 IN (@@\w+))$/i,
+        );
+        if (byGauge) {
+            const [, variable, name, gauge, limit, returnValue, removeName] = byGauge;
+            const documents = this.collection(String(context.bindVars[name.slice(1)])).documents;
+            context.stats.scannedFull += documents.length;
+            const targetGauge = Number(this.resolve(gauge, context));
+            const candidates = documents.filter((document) => document.gauge > targetGauge);
+            candidates.sort((a, b) => a.gauge - b.gauge);
+            const selected = candidates.slice(0, Number(this.resolve(limit, context)));
+            if (removeName) {
+                const collection = this.collection(String(context.bindVars[removeName.slice(1)]));
+                context.stats.writesExecuted += collection.remove(selected.map((d) => d._key));
+                return [];
+            }
+            return selected.map((document) =>
+                this.resolve(returnValue, {
+                    ...context,
+                    scope: { ...context.scope, [variable]: document },
+                }),
+            );
+        }
+
+        const write = text.match(/^FOR (\w+) IN (@\w+) (INSERT|REMOVE) (.+) IN (@@\w+)$/i);
+        if (write) {
+            const [, variable, array, operation, expression, name] = write;
+            const collection = this.collection(String(context.bindVars[name.slice(1)]));
+            const values = (this.resolve(array, context) as unknown[]).map((value) =>
+                this.resolve(expression, {
+                    ...context,
+                    scope: { ...context.scope, [variable]: value },
+                }),
+            );
+            context.stats.writesExecuted +=
+                operation.toUpperCase() === 'INSERT'
+                    ? collection.insert(values as Document[]).length
+                    : collection.remove(values as string[]);
+            return [];
+        }
+
+        const update = text.match(
+            /^LET (\w+) = \( ?(.+?) ?\) FOR (\w+) IN 0\.\.(\S+) FILTER \3 < LENGTH\(\1\) UPDATE \1\[\3\] WITH (@\w+)\[\3\] IN (@@\w+)$/i,
+        );
+        if (update) {
+            const [, , inner, , last, valuesName, name] = update;
+            const keys = this.execute(inner, context) as string[];
+            const values = this.resolve(valuesName, context) as Partial<Document>[];
+            const collection = this.collection(String(context.bindVars[name.slice(1)]));
+            const count = Math.min(keys.length, Number(this.resolve(last, context)) + 1);
+            for (let i = 0; i < count; i++) {
+                if (collection.update(keys[i], values[i])) {
+                    context.stats.writesExecuted++;
+                }
+            }
+            return [];
+        }
+
+        const byCategory = text.match(
+            /^FOR (\w+) IN (@@\w+) COLLECT (\w+) = \1\.(\w+) WITH COUNT INTO (\w+) RETURN \{ \3, \5 \}$/i,
+        );
+        if (byCategory) {
+            const [, , name, groupName, field, countName] = byCategory;
+            const documents = this.collection(String(context.bindVars[name.slice(1)])).documents;
+            context.stats.scannedFull += documents.length;
+            const counts = new Map<unknown, number>();
+            for (const document of documents) {
+                counts.set(document[field], (counts.get(document[field]) ?? 0) + 1);
+            }
+            return Array.from(counts, ([value, count]) => ({
+                [groupName]: value,
+                [countName]: count,
+            }));
+        }
+
+        const subquery = text.match(/^FOR (\w+) IN (@\w+) LET (\w+) = FIRST\( ?(.+?) ?\) (.+)$/i);
+        if (subquery) {
+            const [, variable, array, name, inner, rest] = subquery;
+            const rows = (this.resolve(array, context) as unknown[]).map((value) => {
+                const scope = { ...context.scope, [variable]: value };
+                const [first = null] = this.execute(inner, { ...context, scope });
+                return { ...scope, [name]: first };
+            });
+            return this.finishSubquery(rest, name, rows, context);
+        }
+
+        throw new UnsupportedQueryError(`Query not supported by FakeDatabase: ${text}`);
+    }
+
+    /**
+     * Executes what follows the LET of a loop over an array with a subquery
+     */
+    private finishSubquery(
+        text: string,
+        name: string,
+        rows: ReadonlyArray<Scope>,
+        context: QueryContext,
+    ): unknown[] {
+        const distinct = text.match(
+            /^FILTER (\w+) != null COLLECT \w+ = \1\._key INTO (\w+) = \1 RETURN FIRST\(\2\)$/i,
+        );
+        if (distinct && distinct[1] === name) {
+            const documents = new Map<string, FakeDocument>();
+            for (const row of rows) {
+                const document = row[name] as FakeDocument | null;
+                if (document && !documents.has(document._key)) {
+                    documents.set(document._key, document);
+                }
+            }
+            return Array.from(documents.values());
+        }
+
+        const found = text.match(/^FILTER \((\w+) > 0\) == (\S+) RETURN (\w+)$/i);
+        if (found && found[1] === name) {
+            const expected = this.resolve(found[2], context);
+            return rows
+                .filter((row) => Number(row[name]) > 0 === expected)
+                .map((row) => row[found[3]]);
+        }
+
+        const object = text.match(/^RETURN \{ (.+) \}$/i);
+        if (object) {
+            const properties = object[1].split(', ').map((property) => {
+                const [key, expression = key] = property.split(': ');
+                return [key, expression] as const;
+            });
+            return rows.map((row) =>
+                Object.fromEntries(
+                    properties.map(([key, expression]) => [
+                        key,
+                        this.resolve(expression, { ...context, scope: row }),
+                    ]),
+                ),
+            );
+        }
+
+        throw new UnsupportedQueryError(`Subquery not supported by FakeDatabase: ${text}`);
+    }
+
+    private matches(
+        condition: string,
+        variable: string,
+        document: FakeDocument,
+        context: QueryContext,
+    ) {
+        const equals = condition.match(/^(\w+)\.(\w+) == (.+)$/);
+        if (equals && equals[1] === variable) {
+            return document[equals[2]] === this.resolve(equals[3], context);
+        }
+        const startsWith = condition.match(/^STARTS_WITH\((\w+)\.(\w+), (.+)\)$/i);
+        if (startsWith && startsWith[1] === variable) {
+            const prefix = String(this.resolve(startsWith[3], context));
+            return String(document[startsWith[2]]).startsWith(prefix);
+        }
+        throw new UnsupportedQueryError(
+            `Search condition not supported by FakeDatabase: ${condition}`,
+        );
+    }
+
+    /**
+     * Evaluates a bind parameter, a literal, a variable, an attribute of a variable or UNSET() of
+     * a variable
+     */
+    private resolve(expression: string, { bindVars, scope }: QueryContext): unknown {
+        const bindVar = expression.match(/^@(\w+)$/);
+        if (bindVar) {
+            if (!(bindVar[1] in bindVars)) {
+                throw new Error(`Missing bind parameter ${bindVar[1]}`);
+            }
+            return bindVars[bindVar[1]];
+        }
+        if (/^-?\d+(\.\d+)?$/.test(expression)) {
+            return Number(expression);
+        }
+        if (expression === 'true' || expression === 'false') {
+            return expression === 'true';
+        }
+        const attribute = expression.match(/^(\w+)\.(\w+)$/);
+        if (attribute && attribute[1] in scope) {
+            return (scope[attribute[1]] as Record<string, unknown>)[attribute[2]];
+        }
+        if (expression in scope) {
+            return scope[expression];
+        }
+        const unset = expression.match(/^UNSET\((\w+), (.+)\)$/i);
+        if (unset && unset[1] in scope) {
+            const names = unset[2].split(', ').map((name) => name.replace(/^'(.*)'$/, '$1'));
+            return Object.fromEntries(
+                Object.entries(scope[unset[1]] as object).filter(([key]) => !names.includes(key)),
+            );
+        }
+        throw new UnsupportedQueryError(`Expression not supported by FakeDatabase: ${expression}`);
+    }
+}
@@ -0,0 +1,29 @@
+/**
+ * A clock that only moves when told to, so that the iteration planning of a benchmark does not
+ * depend on how fast the machine running the tests is
+ */
+export class FakeClock {
+    private now = 0;
+
+    /**
+     * Returns the current time in seconds. Can be passed as BenchmarkConfig.clock.
+     */
+    readonly time = () => this.now;
+
+    advance(seconds: number) {
+        this.now += seconds;
+    }
+}
+
+/**
+ * Creates a benchmark fn that takes the given durations in turn (starting over at the end) and
+ * advances the clock by each duration
+ */
+export function createFakeFn(clock: FakeClock, durations: ReadonlyArray<number>) {
+    let index = 0;
+    return async () => {
+        const duration = durations[index++ % durations.length];
+        clock.advance(duration);
+        return duration;
+    };
+}
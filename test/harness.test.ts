@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { UsageError } from '../lib/cli.ts';
+import { getDatasetProfile } from '../lib/datasets.ts';
+import { createHarness, HarnessOptions } from '../lib/harness.ts';
+import { ViewMatrix } from '../lib/view-config.ts';
+import { FakeDatabase } from './fake-arango.ts';
+
+const matrix: ViewMatrix = {
+    parallelism: [1],
+    defaults: {},
+    variants: [{ name: 'default' }],
+    searchAlias: false,
+    analyzers: {},
+};
+
+function setUp(options: Partial<HarnessOptions> = {}) {
+    const database = new FakeDatabase();
+    const collection = database.collection('perf');
+    database.createView('perf_view_default', collection);
+    return createHarness(database.asDatabase(), collection.asCollection(), matrix, {
+        command: 'setup',
+        dataset: getDatasetProfile('tokens')!,
+        seed: 1,
+        ...options,
+    });
+}
+
+describe('createHarness', () => {
+    test('generates different documents for each command with the same seed', () => {
+        const setup = setUp({ command: 'setup' });
+        const churn = setUp({ command: 'churn' });
+        assert.notEqual(setup.random.data.next(), churn.random.data.next());
+        assert.equal(setUp({ command: 'setup' }).random.data.next(), setUp().random.data.next());
+    });
+
+    test('rejects unknown views', () => {
+        assert.throws(() => setUp({ views: ['missing'] }), UsageError);
+    });
+});
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { runComparison } from '../lib/compare.ts';
+import { LatencyRecorder } from '../lib/latency-windows.ts';
+import { createFakeFn, FakeClock } from './fake-clock.ts';
+
+describe('LatencyRecorder', () => {
+    test('groups the latencies into windows', () => {
+        const recorder = new LatencyRecorder();
+        recorder.record(1);
+        recorder.record(3);
+        const windows = recorder.getWindows(1e9);
+        assert.equal(windows.length, 1);
+        assert.equal(windows[0].start, 0);
+        assert.equal(windows[0].timings.sampleCount, 2);
+        assert.equal(windows[0].timings.meanTime, 2);
+    });
+
+    test('discards the latencies of failed attempts of a run', async () => {
+        const clock = new FakeClock();
+        const fakeFn = createFakeFn(clock, [0.01]);
+        const recorder = new LatencyRecorder();
+        let calls = 0;
+        const { candidates } = await runComparison(
+            [
+                recorder.wrap({
+                    name: 'flaky',
+                    // the first attempt records one latency before it fails
+                    fn: () => (++calls === 2 ? Promise.reject(new Error('timeout')) : fakeFn()),
+                    clock: clock.time,
+                    maxTime: 5,
+                }),
+            ],
+            undefined,
+            { retries: 1 },
+        );
+        assert.equal(candidates.length, 1);
+        const [window] = recorder.getWindows(1e9);
+        assert.equal(window.timings.sampleCount, candidates[0].benchmark.iterationCount);
+    });
+});
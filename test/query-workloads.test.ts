@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Database } from 'arangojs';
+import { AqlQuery } from 'arangojs/aql';
+import { runComparison } from '../lib/compare.ts';
+import { generateDocument, getDatasetProfile } from '../lib/datasets.ts';
+import { QueryProfile } from '../lib/query-profile.ts';
+import { getQueryWorkload, MeasurementMode, PerfQueryOptions } from '../lib/query-workloads.ts';
+import { Random } from '../lib/random.ts';
+import { FakeDatabase, FakeViewOptions } from './fake-arango.ts';
+import { FakeClock } from './fake-clock.ts';
+
+const DOCUMENT_COUNT = 200;
+
+function setUp(viewOptions: FakeViewOptions = {}, clock?: FakeClock) {
+    const database = new FakeDatabase({ clock });
+    const collection = database.collection('perf');
+    const random = new Random(1);
+    const profile = getDatasetProfile('tokens')!;
+    collection.insert(
+        Array.from({ length: DOCUMENT_COUNT }, () => generateDocument(profile, random)),
+    );
+    const view = database.createView('perf_view', collection, viewOptions);
+    const options: PerfQueryOptions = {
+        database: database.asDatabase(),
+        collection: collection.asCollection(),
+        view: view.asView(),
+        parallelism: 1,
+        random: new Random(2),
+    };
+    return { database, collection, view, options };
+}
+
+describe('query workloads', () => {
+    for (const name of ['count', 'find', 'prefix']) {
+        test(`${name} returns the execution time of the search`, async () => {
+            const { options } = setUp({ searchTime: 0.005 });
+            const duration = await getQueryWorkload(name)!.fn(options);
+            assert.equal(duration, 0.005);
+        });
+    }
+
+    test('find fails if the view does not find the document', async () => {
+        const { options, view, collection } = setUp();
+        for (const document of collection.documents) {
+            view.simulateMissingDocument(document._key);
+        }
+        await assert.rejects(getQueryWorkload('find')!.fn(options), /failed to find doc/);
+    });
+
+    test('fails in executing mode if the profile has no executing phase', async () => {
+        const { options, database } = setUp();
+        const withoutPhases = {
+            query: async (query: AqlQuery) => {
+                const cursor = await database.query(query);
+                cursor.extra.profile = {};
+                return cursor;
+            },
+        };
+        await assert.rejects(
+            getQueryWorkload('count')!.fn({
+                ...options,
+                database: withoutPhases as unknown as Database,
+            }),
+            /no executing phase/,
+        );
+    });
+
+    test('only profiles as much as needed', async () => {
+        const { options, database } = setUp();
+        const profileLevels: Array<number | undefined> = [];
+        const recordingDatabase = {
+            query: (query: AqlQuery, queryOptions: { profile?: number }) => {
+                profileLevels.push(queryOptions.profile);
+                return database.query(query, queryOptions);
+            },
+        };
+        const count = getQueryWorkload('count')!.fn;
+        const run = (measurement: MeasurementMode, onProfile?: () => void) =>
+            count({
+                ...options,
+                database: recordingDatabase as unknown as Database,
+                measurement,
+                onProfile,
+            });
+        await run('executing');
+        await run('round-trip');
+        await run('round-trip', () => {});
+        assert.deepEqual(profileLevels, [1, undefined, 2]);
+    });
+
+    test('reports the profile of the search', async () => {
+        const { options } = setUp({ searchTime: 0.005 });
+        const profiles: QueryProfile[] = [];
+        await getQueryWorkload('count')!.fn({
+            ...options,
+            measurement: 'server',
+            onProfile: (profile) => profiles.push(profile),
+        });
+        assert.equal(profiles.length, 1);
+        assert.equal(profiles[0].executionTime, 0.005);
+        assert.equal(profiles[0].nodes[0].type, 'EnumerateViewNode');
+    });
+
+    test('ranks views in a comparison', async () => {
+        const clock = new FakeClock();
+        const jitter = new Random(3);
+        const { database, collection, options } = setUp({}, clock);
+        const views = [
+            { name: 'slow', searchTime: () => 0.002 + jitter.next() * 0.0002 },
+            { name: 'fast', searchTime: () => 0.001 + jitter.next() * 0.0001 },
+        ].map(({ name, searchTime }) => database.createView(name, collection, { searchTime }));
+        const count = getQueryWorkload('count')!.fn;
+        const { candidates } = await runComparison(
+            views.map((view) => ({
+                name: view.name,
+                fn: () => count({ ...options, view: view.asView() }),
+                clock: clock.time,
+                maxTime: 1,
+            })),
+        );
+        assert.deepEqual(
+            candidates.map((c) => [c.config.name, c.isFastest]),
+            [
+                ['fast', true],
+                ['slow', false],
+            ],
+        );
+    });
+});
@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getDatasetProfile } from '../lib/datasets.ts';
+import {
+    checkSearchAliasDataset,
+    getMultiAnalyzerFieldNames,
+    toInvertedIndex,
+} from '../lib/search-alias.ts';
+import { ConfigError, parseViewMatrix, ViewMatrix } from '../lib/view-config.ts';
+
+function createMatrix(overrides: Partial<ViewMatrix>): ViewMatrix {
+    return {
+        parallelism: [1],
+        defaults: {},
+        variants: [{ name: 'default' }],
+        searchAlias: true,
+        analyzers: {},
+        ...overrides,
+    };
+}
+
+describe('toInvertedIndex', () => {
+    test('flattens nested fields and inherits their analyzers', () => {
+        const index = toInvertedIndex(
+            'inverted_nested',
+            {},
+            {
+                analyzers: ['text_en'],
+                includeAllFields: true,
+                fields: {
+                    title: {},
+                    meta: {
+                        analyzers: ['identity'],
+                        fields: { author: {}, tags: { analyzers: ['text_de'] } },
+                    },
+                },
+            },
+        );
+        assert.equal(index.type, 'inverted');
+        assert.equal(index.name, 'inverted_nested');
+        assert.deepEqual(index.fields, [
+            { name: 'title', analyzer: 'text_en' },
+            { name: 'meta.author', analyzer: 'identity' },
+            { name: 'meta.tags', analyzer: 'text_de' },
+        ]);
+        assert.equal(index.searchField, true);
+        assert.equal(index.includeAllFields, true);
+    });
+
+    test('uses the identity analyzer if the link has none', () => {
+        const index = toInvertedIndex('inverted_plain', {}, { fields: { field1: {} } });
+        assert.deepEqual(index.fields, [{ name: 'field1', analyzer: 'identity' }]);
+    });
+
+    test('rejects fields with several analyzers', () => {
+        assert.throws(
+            () =>
+                toInvertedIndex(
+                    'inverted_text',
+                    {},
+                    { fields: { title: { analyzers: ['text_en', 'identity'] } } },
+                ),
+            /Field "title" has more than one analyzer/,
+        );
+    });
+
+    test('maps primary sort, stored values and the consolidation properties', () => {
+        const index = toInvertedIndex(
+            'inverted_sorted',
+            {
+                primarySort: [{ field: 'gauge', asc: false }],
+                primarySortCompression: 'lz4',
+                storedValues: [{ fields: ['category', 'gauge'], compression: 'lz4' }],
+                commitIntervalMsec: 100,
+                consolidationPolicy: { type: 'tier', segmentsMin: 2 },
+                writebufferIdle: 16,
+                writebufferActive: 2,
+                writebufferSizeMax: 1024,
+            },
+            { fields: { gauge: {}, category: {} } },
+        );
+        assert.deepEqual(index.primarySort, {
+            fields: [{ field: 'gauge', direction: 'desc' }],
+            compression: 'lz4',
+            cache: undefined,
+        });
+        assert.deepEqual(index.storedValues, [
+            { fields: ['category', 'gauge'], compression: 'lz4' },
+        ]);
+        assert.equal(index.commitIntervalMsec, 100);
+        assert.deepEqual(index.consolidationPolicy, { type: 'tier', segmentsMin: 2 });
+        assert.equal(index.writeBufferIdle, 16);
+        assert.equal(index.writeBufferActive, 2);
+        assert.equal(index.writeBufferSizeMax, 1024);
+    });
+});
+
+describe('getMultiAnalyzerFieldNames', () => {
+    test('finds nested fields with inherited analyzers', () => {
+        assert.deepEqual(
+            getMultiAnalyzerFieldNames({
+                fields: {
+                    title: { analyzers: ['identity'] },
+                    meta: { analyzers: ['text_en', 'identity'], fields: { author: {} } },
+                },
+            }),
+            ['meta.author'],
+        );
+    });
+});
+
+describe('search-alias config checks', () => {
+    test('rejects variant links with fields with several analyzers', () => {
+        assert.throws(
+            () =>
+                parseViewMatrix({
+                    searchAlias: true,
+                    variants: [
+                        {
+                            name: 'text',
+                            links: { fields: { title: { analyzers: ['text_en', 'identity'] } } },
+                        },
+                    ],
+                }),
+            (err) =>
+                err instanceof ConfigError &&
+                /variant "text" can't be used with "searchAlias" because its field "title"/.test(
+                    err.message,
+                ),
+        );
+    });
+
+    test('rejects datasets with fields with several analyzers', () => {
+        assert.throws(
+            () => checkSearchAliasDataset(createMatrix({}), getDatasetProfile('text')!),
+            (err) =>
+                err instanceof ConfigError &&
+                /dataset "text" because its field "title"/.test(err.message),
+        );
+    });
+
+    test('accepts the dataset if search-alias views are disabled or all variants have links', () => {
+        const text = getDatasetProfile('text')!;
+        checkSearchAliasDataset(createMatrix({ searchAlias: false }), text);
+        checkSearchAliasDataset(
+            createMatrix({ variants: [{ name: 'own', links: { fields: { body: {} } } }] }),
+            text,
+        );
+        checkSearchAliasDataset(createMatrix({}), getDatasetProfile('tokens')!);
+    });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Random } from '../lib/random.ts';
+import { compareSamples, getEffectSize, getRankStatistics } from '../lib/stats.ts';
+
+function createSamples(seed: number, count: number, offset = 0) {
+    const random = new Random(seed);
+    return Array.from({ length: count }, () => 0.01 + random.next() * 0.002 + offset);
+}
+
+describe('compareSamples', () => {
+    test('finds no difference between samples of the same distribution', () => {
+        const statistics = compareSamples(createSamples(1, 200), createSamples(2, 200));
+        const { medianDifference, meanRatio } = statistics;
+        assert.ok(medianDifference.lower < 0 && medianDifference.upper > 0);
+        assert.ok(meanRatio.lower < 1 && meanRatio.upper > 1);
+        assert.equal(statistics.effectSize, 'negligible');
+        assert.ok(statistics.pValue > 0.05, `p = ${statistics.pValue}`);
+    });
+
+    test('determines how much slower the samples are', () => {
+        const statistics = compareSamples(createSamples(1, 200, 0.005), createSamples(2, 200));
+        const { medianDifference, medianRatio, meanDifference } = statistics;
+        assert.ok(medianDifference.lower <= medianDifference.estimate);
+        assert.ok(medianDifference.upper >= medianDifference.estimate);
+        assert.ok(medianDifference.lower > 0.0045 && medianDifference.upper < 0.0055);
+        assert.ok(meanDifference.lower > 0.0045 && meanDifference.upper < 0.0055);
+        assert.ok(medianRatio.lower > 1.4 && medianRatio.upper < 1.6);
+        assert.equal(statistics.cliffsDelta, 1);
+        assert.equal(statistics.effectSize, 'large');
+        assert.ok(statistics.pValue < 0.001);
+    });
+
+    test('narrows the intervals with the confidence level', () => {
+        const samples = createSamples(1, 100, 0.001);
+        const reference = createSamples(2, 100);
+        const wide = compareSamples(samples, reference, { confidenceLevel: 0.99 });
+        const narrow = compareSamples(samples, reference, { confidenceLevel: 0.8 });
+        assert.ok(narrow.medianDifference.lower > wide.medianDifference.lower);
+        assert.ok(narrow.medianDifference.upper < wide.medianDifference.upper);
+    });
+
+    test('is reproducible', () => {
+        const samples = createSamples(1, 50);
+        const reference = createSamples(2, 50);
+        assert.deepEqual(compareSamples(samples, reference), compareSamples(samples, reference));
+        assert.deepEqual(
+            compareSamples(samples, reference, { random: new Random(3) }),
+            compareSamples(samples, reference, { random: new Random(3) }),
+        );
+    });
+});
+
+describe('getRankStatistics', () => {
+    test('computes the exact p-value for small samples', () => {
+        // one of 20 arrangements of 3 and 3 samples is this extreme, on either side
+        assert.deepEqual(getRankStatistics([4, 5, 6], [1, 2, 3]), { cliffsDelta: 1, pValue: 0.1 });
+        assert.deepEqual(getRankStatistics([1, 2, 3], [4, 5, 6]), {
+            cliffsDelta: -1,
+            pValue: 0.1,
+        });
+        assert.equal(getRankStatistics([1, 4, 5], [2, 3, 6]).pValue, 1);
+    });
+
+    test('counts ties as half', () => {
+        const { cliffsDelta, pValue } = getRankStatistics([1, 2, 2, 3], [2, 2, 2, 2]);
+        assert.equal(cliffsDelta, 0);
+        assert.equal(pValue, 1);
+        assert.equal(getRankStatistics([2, 2], [2, 2]).pValue, 1);
+    });
+
+    test('uses the normal approximation for large samples', () => {
+        const reference = Array.from({ length: 30 }, (_, i) => i + 1);
+        const { cliffsDelta, pValue } = getRankStatistics(
+            reference.map((sample) => sample + 5.5),
+            reference,
+        );
+        // U = 600 of 900 pairs, z = (600 - 450 - 0.5) / sqrt(900 * 61 / 12)
+        assert.ok(Math.abs(cliffsDelta - 1 / 3) < 1e-12);
+        assert.ok(Math.abs(pValue - 0.0271) < 0.0005, `p = ${pValue}`);
+    });
+});
+
+describe('getEffectSize', () => {
+    test('classifies the magnitude of the difference', () => {
+        assert.deepEqual([0, 0.1, -0.2, 0.4, -0.5, 1].map(getEffectSize), [
+            'negligible',
+            'negligible',
+            'small',
+            'medium',
+            'large',
+            'large',
+        ]);
+    });
+});
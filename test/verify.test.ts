@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, test } from 'node:test';
+import { generateDocument, getDatasetProfile } from '../lib/datasets.ts';
+import { createHarness } from '../lib/harness.ts';
+import { Random } from '../lib/random.ts';
+import { ViewMatrix } from '../lib/view-config.ts';
+import { verify } from '../lib/verify.ts';
+import { FakeDatabase } from './fake-arango.ts';
+
+const matrix: ViewMatrix = {
+    parallelism: [1],
+    defaults: {},
+    variants: [{ name: 'default' }],
+    searchAlias: false,
+    analyzers: {},
+};
+
+describe('verify', () => {
+    let resultsDirectory = '';
+
+    async function setUp() {
+        resultsDirectory = await mkdtemp(join(tmpdir(), 'verify-'));
+        const database = new FakeDatabase();
+        const collection = database.collection('perf');
+        const dataset = getDatasetProfile('tokens')!;
+        const random = new Random(1);
+        collection.insert(Array.from({ length: 100 }, () => generateDocument(dataset, random)));
+        const view = database.createView('perf_view_default', collection);
+        const harness = createHarness(database.asDatabase(), collection.asCollection(), matrix, {
+            command: 'verify',
+            dataset,
+            seed: 1,
+        });
+        return { collection, view, harness };
+    }
+
+    afterEach(async () => {
+        await rm(resultsDirectory, { recursive: true, force: true });
+    });
+
+    test('accepts a view that matches the collection without writing to it', async () => {
+        const { collection, harness } = await setUp();
+        const documents = collection.documents;
+        const options = { sampleSize: 10, removeSamples: false, resultsDirectory };
+        assert.equal(await verify(harness, options), true);
+        assert.deepEqual(collection.documents, documents);
+        const files = await readdir(resultsDirectory);
+        assert.deepEqual(
+            files.map((file) => file.replace(/^.*-/, '')),
+            ['verify.csv'],
+        );
+    });
+
+    test('reports a view with phantom documents', async () => {
+        const { collection, view, harness } = await setUp();
+        const [removed] = collection.documents;
+        collection.remove([removed._key]);
+        view.simulatePhantomDocument(removed);
+        const options = { sampleSize: 10, removeSamples: false, resultsDirectory };
+        assert.equal(await verify(harness, options), false);
+    });
+
+    test('inserts the removed samples again and deletes their backup', async () => {
+        const { collection, harness } = await setUp();
+        const documents = collection.documents;
+        const options = { sampleSize: 10, removeSamples: true, resultsDirectory };
+        assert.equal(await verify(harness, options), true);
+        const byKey = (a: { _key: string }, b: { _key: string }) => a._key.localeCompare(b._key);
+        assert.deepEqual(collection.documents.sort(byKey), documents.sort(byKey));
+        const files = await readdir(resultsDirectory);
+        assert.deepEqual(
+            files.map((file) => file.replace(/^.*-/, '')),
+            ['verify.csv'],
+        );
+    });
+});
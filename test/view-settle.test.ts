@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { generateDocument, getDatasetProfile } from '../lib/datasets.ts';
+import { Random } from '../lib/random.ts';
+import { settleViews } from '../lib/view-settle.ts';
+import { captureViewTelemetry } from '../lib/view-telemetry.ts';
+import { FakeDatabase } from './fake-arango.ts';
+
+function setUp() {
+    const database = new FakeDatabase();
+    const collection = database.collection('perf');
+    const random = new Random(1);
+    const profile = getDatasetProfile('tokens')!;
+    collection.insert(Array.from({ length: 50 }, () => generateDocument(profile, random)));
+    const views = ['a', 'b'].map((name) =>
+        database.createView(name, collection, { manualCommit: true }),
+    );
+    return { database, collection, views };
+}
+
+describe('captureViewTelemetry', () => {
+    test('reports the documents that are not committed yet', async () => {
+        const { database, collection, views } = setUp();
+        views[0].commit();
+        const snapshots = await captureViewTelemetry(
+            database.asDatabase(),
+            collection.asCollection(),
+            ['a', 'b'],
+        );
+        assert.deepEqual(
+            snapshots.map((s) => [s.view, s.collectionCount, s.numDocs, s.pendingDocs]),
+            [
+                ['a', 50, 50, 0],
+                ['b', 50, 0, 50],
+            ],
+        );
+        // the stand-in has no metrics
+        assert.equal(snapshots[0].commitTime, undefined);
+    });
+});
+
+describe('settleViews', () => {
+    test('waits for the views to catch up with the collection', async () => {
+        const { database, collection } = setUp();
+        const snapshots = await settleViews(
+            database.asDatabase(),
+            collection.asCollection(),
+            ['a', 'b'],
+            { pollInterval: 0.001 },
+        );
+        assert.deepEqual(
+            snapshots.map((s) => s.pendingDocs),
+            [0, 0],
+        );
+    });
+});
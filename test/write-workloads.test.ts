@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { setTimeout } from 'node:timers/promises';
+import { generateDocument, getDatasetProfile } from '../lib/datasets.ts';
+import { Random } from '../lib/random.ts';
+import {
+    getDocumentThroughput,
+    measureVisibilityLatency,
+    measureWrite,
+    VisibilityTimeoutError,
+    WriteStore,
+} from '../lib/write-workloads.ts';
+import { FakeCollection, FakeDatabase } from './fake-arango.ts';
+
+function createWriteStore(collection: FakeCollection, random: Random): WriteStore {
+    const profile = getDatasetProfile('tokens')!;
+    return {
+        insert: async (count) =>
+            collection.insert(
+                Array.from({ length: count }, () => generateDocument(profile, random)),
+            ).length,
+        update: async (count) => collection.documents.slice(0, count).length,
+        remove: async (count) =>
+            collection.remove(collection.documents.slice(0, count).map((doc) => doc._key)),
+    };
+}
+
+describe('measureWrite', () => {
+    test('performs the operation', async () => {
+        const collection = new FakeDatabase().collection('perf');
+        const store = createWriteStore(collection, new Random(1));
+        const duration = await measureWrite(store, 'insert', 10);
+        assert.ok(duration >= 0);
+        assert.equal((await collection.count()).count, 10);
+        await measureWrite(store, 'remove', 4);
+        assert.equal((await collection.count()).count, 6);
+    });
+
+    test('measures the time per written document', async () => {
+        const store = {
+            remove: async () => {
+                await setTimeout(20);
+                return 4;
+            },
+        } as unknown as WriteStore;
+        const duration = await measureWrite(store, 'remove', 10);
+        assert.ok(duration >= 0.0045 && duration < 0.02, `duration was ${duration}`);
+    });
+
+    test('picks empty batches again', async () => {
+        const writtenCounts = [0, 0, 5];
+        const store = { insert: async () => writtenCounts.shift()! } as unknown as WriteStore;
+        const duration = await measureWrite(store, 'insert', 10);
+        assert.ok(duration >= 0);
+        assert.deepEqual(writtenCounts, []);
+    });
+
+    test('fails if nothing was written', async () => {
+        const collection = new FakeDatabase().collection('perf');
+        const store = createWriteStore(collection, new Random(1));
+        await assert.rejects(measureWrite(store, 'remove', 10), /did not write any documents/);
+    });
+});
+
+describe('getDocumentThroughput', () => {
+    test('counts the documents written by all concurrent batches', () => {
+        assert.equal(getDocumentThroughput({ meanTime: 0.001, concurrency: 1 }), 1000);
+        assert.equal(getDocumentThroughput({ meanTime: 0.001, concurrency: 4 }), 4000);
+    });
+});
+
+describe('measureVisibilityLatency', () => {
+    function setUp() {
+        const database = new FakeDatabase();
+        const collection = database.collection('perf');
+        const view = database.createView('perf_view', collection, { manualCommit: true });
+        const random = new Random(1);
+        const profile = getDatasetProfile('tokens')!;
+        const insertDocument = async () =>
+            collection.insert([generateDocument(profile, random)])[0].field1;
+        return { database, view, insertDocument };
+    }
+
+    test('waits until the view has committed the document', async () => {
+        const { database, view, insertDocument } = setUp();
+        const commit = setTimeout(50).then(() => view.commit());
+        const latency = await measureVisibilityLatency(
+            database.asDatabase(),
+            view.asView(),
+            insertDocument,
+            { pollInterval: 0.005 },
+        );
+        await commit;
+        assert.ok(latency >= 0.045, `latency was ${latency}`);
+    });
+
+    test('gives up after the timeout', async () => {
+        const { database, view, insertDocument } = setUp();
+        await assert.rejects(
+            measureVisibilityLatency(database.asDatabase(), view.asView(), insertDocument, {
+                timeout: 0.05,
+                pollInterval: 0.005,
+            }),
+            VisibilityTimeoutError,
+        );
+    });
+});